@@ -1,17 +1,41 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import CameraFeed, { CameraHandle } from './components/CameraFeed';
 import LiveAudio from './components/LiveAudio';
 import Timeline from './components/Timeline';
-import { CapturedImage, MonitorSettings, ChatMessage } from './types';
+import ExportPanel from './components/ExportPanel';
+import ReportPanel from './components/ReportPanel';
+import InsightsPanel from './components/InsightsPanel';
+import MetricsPanel from './components/MetricsPanel';
+import CaptureHealthPanel from './components/CaptureHealthPanel';
+import CareJournalPanel from './components/CareJournalPanel';
+import AlertsPanel from './components/AlertsPanel';
+import WebhooksPanel from './components/WebhooksPanel';
+import Dashboard from './components/Dashboard';
+import Gallery from './components/Gallery';
+import CompareView from './components/CompareView';
+import AlignedImage from './components/AlignedImage';
+import { CapturedImage, MonitorSettings, ChatMessage, ChatMode, AppMode, CaptureLogEntry, CareEvent, Alert, WebhookConfig, WebhookDelivery, WebhookEvent, FrameQuality, QualityPolicy, Project, ProjectSettings, CaptureSchedule } from './types';
 import { 
-  analyzeImage, 
   sendMessage, 
   generateSpeech, 
   getFastResponse, 
-  generateGrowthReport,
+  extractGroundingUrls,
   decodeAudio,
   decodeAudioData
 } from './services/geminiService';
+import { loadFrames, syncFrames, resolveImageData, loadCaptureLog, appendCaptureLog, clearCaptureLog, loadProjects, saveProjects, deleteProjectData, loadSettings, saveSettings, loadCareEvents, saveCareEvent, deleteCareEvent, loadAlerts, saveAlert, clearAlerts, loadWebhooks, saveWebhooks, loadDeliveries, appendDelivery, clearDeliveries } from './services/storageService';
+import { formatTimestamp } from './services/exportService';
+import { analyzeWithSecondOpinion, getDownweightReason, getCurrentHealth } from './services/confidenceService';
+import { computeFrameMetrics } from './services/metricsService';
+import { SCHEDULER_TICK_MS, getNextCaptureTime, getSunTimes, auditCapture } from './services/schedulerService';
+import { createLogEntry, summarizeCaptureHealth, logForProject, isOwnedEntry } from './services/captureHealthService';
+import { assessFrameQuality, applyQualityPolicies } from './services/qualityService';
+import { DEFAULT_PROJECT_ID, createProject, inProject, projectIdOf, listVideoDevices, buildPlantContext, resolveSettings } from './services/projectService';
+import { createCareEvent } from './services/careService';
+import { dispatchWebhookEvent, frameData, sendTestEvent } from './services/webhookService';
+import { DEFAULT_ALERT_RULES, evaluateFrame, evaluateCameraOffline, showNotification, speakAlert } from './services/alertService';
+import { prepareReference, estimateAlignment, AlignmentReference } from './services/alignmentService';
+import { buildObservationContext, extractFrameCitations, splitFrameCitations } from './services/retrievalService';
 import { 
   Leaf, 
   Play, 
@@ -53,15 +77,43 @@ import {
   Power,
   HelpCircle,
   Lightbulb,
+  Film,
+  Paperclip,
+  BarChart3,
+  Images,
+  Columns,
+  Crosshair,
+  CalendarClock,
+  ShieldCheck,
+  Layers,
+  Plus,
   X
 } from 'lucide-react';
 
+const MAX_CHAT_ATTACHMENTS = 8;
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const formatClock = (ms: number) => new Date(ms).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
 const App: React.FC = () => {
+  const [mode, setMode] = useState<AppMode>(AppMode.MONITOR);
   const [active, setActive] = useState(false);
   const [isCameraEnabled, setIsCameraEnabled] = useState(true);
-  const [images, setImages] = useState<CapturedImage[]>([]);
+  // Frames of every project; `images` below is the selected project's timeline.
+  const [allImages, setImages] = useState<CapturedImage[]>([]);
+  const [archiveLoaded, setArchiveLoaded] = useState(false);
+  const [captureLog, setCaptureLog] = useState<CaptureLogEntry[]>([]);
+  const [careEvents, setCareEvents] = useState<CareEvent[]>([]);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [webhooks, setWebhooks] = useState<WebhookConfig[]>([]);
+  const [webhooksLoaded, setWebhooksLoaded] = useState(false);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [projects, setProjects] = useState<Project[]>([createProject('Plant 01')]);
+  const [projectsLoaded, setProjectsLoaded] = useState(false);
+  const [selectedProjectId, setSelectedProjectId] = useState(DEFAULT_PROJECT_ID);
+  const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
   const [settings, setSettings] = useState<MonitorSettings>({
-    intervalHours: 1.5,
     autoAnalyze: false,
     wakeLockActive: true,
     facingMode: 'environment',
@@ -69,40 +121,258 @@ const App: React.FC = () => {
     playbackFps: 1,
     timestampPrecision: 'both',
     minConfidenceThreshold: 70,
-    autoAdvance: true
+    autoAdvance: true,
+    quality: {
+      minBrightness: 12,
+      maxBrightness: 95,
+      minSharpness: 40,
+      maxSimilarity: 98,
+      exposurePolicy: 'discard',
+      blurPolicy: 'flag',
+      duplicatePolicy: 'skip-analysis'
+    },
+    stabilize: false,
+    flashMode: 'off',
+    alertRules: DEFAULT_ALERT_RULES
   });
   const [selectedImage, setSelectedImage] = useState<CapturedImage | null>(null);
   const [liveMode, setLiveMode] = useState(false);
   const [playbackMode, setPlaybackMode] = useState(false);
   const [stealthMode, setStealthMode] = useState(false);
   const [showSettings, setShowSettings] = useState(true);
+  const [exportFrames, setExportFrames] = useState<CapturedImage[] | null>(null);
+  const [compareIds, setCompareIds] = useState<[string, string] | null>(null);
+  const [showReports, setShowReports] = useState(false);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [userInput, setUserInput] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
   const [location, setLocation] = useState<{lat: number, lng: number} | undefined>(undefined);
+  const [chatMode, setChatMode] = useState<ChatMode>('standard');
+  const [locationError, setLocationError] = useState<string | null>(null);
+  const [chatAttachments, setChatAttachments] = useState<string[]>([]);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [flash, setFlash] = useState(false);
+  const [alignProgress, setAlignProgress] = useState<number | null>(null);
 
-  const cameraRef = useRef<CameraHandle>(null);
+  const cameraRefs = useRef<Record<string, CameraHandle | null>>({});
   const intervalRef = useRef<any>(null);
   const playbackRef = useRef<any>(null);
   const timerRef = useRef<any>(null);
+  const persistedRef = useRef<CapturedImage[]>([]);
+  // The capture interval outlives renders, so it reads settings through a ref instead of a stale closure.
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const imagesRef = useRef(allImages);
+  imagesRef.current = allImages;
+  const projectsRef = useRef(projects);
+  projectsRef.current = projects;
+  const alertsRef = useRef(alerts);
+  alertsRef.current = alerts;
+  const webhooksRef = useRef(webhooks);
+  webhooksRef.current = webhooks;
+  const activeRef = useRef(active);
+  activeRef.current = active;
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const alignmentReferenceRef = useRef<Record<string, AlignmentReference>>({});
+  // Scheduled attempts whose frame was discarded still count as captures, so a dark room is not retried every tick.
+  const lastAttemptRef = useRef<Record<string, number>>({});
+  // Feeds can capture in the same millisecond, so frame ids are kept strictly increasing.
+  const lastFrameIdRef = useRef(0);
+
+  const project = projects.find(p => p.id === selectedProjectId) ?? projects[0];
+  const images = useMemo(() => inProject(allImages, project.id), [allImages, project.id]);
+  const plantSettings = resolveSettings(project, settings);
+  const projectCare = useMemo(() => inProject(careEvents, project.id), [careEvents, project.id]);
 
   useEffect(() => {
     timerRef.current = setInterval(() => setCurrentTime(new Date()), 1000);
     return () => clearInterval(timerRef.current);
   }, []);
 
+  // Restore the archive from IndexedDB. Frames captured before it resolves are kept and persisted too.
+  // An analysis still pending in storage was cut off by the reload, so it is marked as failed.
   useEffect(() => {
-    if (active) {
-      const intervalMs = settings.intervalHours * 60 * 60 * 1000;
-      if (images.length === 0) setTimeout(captureAndProcess, 1000);
-      intervalRef.current = setInterval(captureAndProcess, intervalMs);
-    } else {
-      if (intervalRef.current) clearInterval(intervalRef.current);
+    loadFrames()
+      .then(stored => {
+        persistedRef.current = stored;
+        const restored = stored.map(img => img.analysisStatus === 'pending'
+          ? { ...img, analysisStatus: 'failed' as const, analysisError: 'Analysis interrupted by reload.' }
+          : img);
+        setImages(prev => [...restored, ...prev.filter(p => !stored.some(s => s.id === p.id))]);
+      })
+      .catch(e => console.error("Archive Restore Error:", e))
+      .finally(() => setArchiveLoaded(true));
+    loadCaptureLog()
+      .then(stored => setCaptureLog(prev => [...stored, ...prev]))
+      .catch(e => console.error("Capture Log Restore Error:", e));
+    loadCareEvents()
+      .then(stored => setCareEvents(prev => [...stored, ...prev].sort((a, b) => a.timestamp - b.timestamp)))
+      .catch(e => console.error("Care Journal Restore Error:", e));
+    loadAlerts()
+      .then(stored => setAlerts(prev => [...stored, ...prev]))
+      .catch(e => console.error("Alert Restore Error:", e));
+    loadWebhooks()
+      .then(stored => setWebhooks(prev => [...stored, ...prev]))
+      .catch(e => console.error("Webhook Restore Error:", e))
+      .finally(() => setWebhooksLoaded(true));
+    loadDeliveries()
+      .then(stored => setDeliveries(prev => [...stored, ...prev]))
+      .catch(e => console.error("Delivery Log Restore Error:", e));
+    loadProjects()
+      .then(stored => { if (stored.length > 0) setProjects(stored); })
+      .catch(e => console.error("Project Restore Error:", e))
+      .finally(() => setProjectsLoaded(true));
+    // Stored settings are merged over the defaults so fields added since they were saved keep a value.
+    loadSettings()
+      .then(stored => { if (stored) setSettings(prev => ({ ...prev, ...stored, quality: { ...prev.quality, ...stored.quality } })); })
+      .catch(e => console.error("Settings Restore Error:", e))
+      .finally(() => setSettingsLoaded(true));
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener?.('devicechange', refreshDevices);
+  }, []);
+
+  useEffect(() => {
+    if (!projectsLoaded) return;
+    saveProjects(projects).catch(e => console.error("Project Save Error:", e));
+  }, [projects, projectsLoaded]);
+
+  useEffect(() => {
+    if (!settingsLoaded) return;
+    saveSettings(settings).catch(e => console.error("Settings Save Error:", e));
+  }, [settings, settingsLoaded]);
+
+  useEffect(() => {
+    if (!webhooksLoaded) return;
+    saveWebhooks(webhooks).catch(e => console.error("Webhook Save Error:", e));
+  }, [webhooks, webhooksLoaded]);
+
+  // Backfill local metrics for restored frames captured before metrics existed, one frame at a time.
+  useEffect(() => {
+    if (!archiveLoaded) return;
+    let cancelled = false;
+    (async () => {
+      for (const img of allImages.filter(i => !i.metrics)) {
+        if (cancelled) return;
+        try {
+          const metrics = await computeFrameMetrics(img.dataUrl);
+          setImages(prev => prev.map(p => p.id === img.id ? { ...p, metrics } : p));
+        } catch (e) { console.warn("Metrics backfill skipped frame", img.id, e); }
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [archiveLoaded]);
+
+  // Prepared references are derived data and only live in memory; rebuild them from the stored reference
+  // frames after a reload, and whenever a project switches reference, so new captures stay aligned.
+  const referenceKey = projects.map(p => `${p.id}:${p.alignmentReferenceId ?? ''}`).join(',');
+  useEffect(() => {
+    if (!archiveLoaded || !projectsLoaded) return;
+    projects.forEach(p => {
+      if (!p.alignmentReferenceId) {
+        delete alignmentReferenceRef.current[p.id];
+        return;
+      }
+      if (alignmentReferenceRef.current[p.id]?.id === p.alignmentReferenceId) return;
+      const frame = allImages.find(img => img.id === p.alignmentReferenceId);
+      if (!frame) return;
+      prepareReference(frame)
+        .then(prepared => {
+          // The reference may have changed again while this one was being prepared.
+          if (projectsRef.current.find(x => x.id === p.id)?.alignmentReferenceId === prepared.id) alignmentReferenceRef.current[p.id] = prepared;
+        })
+        .catch(e => console.warn("Alignment Reference Error:", e));
+    });
+  }, [archiveLoaded, projectsLoaded, referenceKey]);
+
+  // Mirror every images update into storage, one sync at a time so writes never interleave.
+  // Each sync diffs against the last snapshot that synced successfully, so writes lost to a failure
+  // are retried with the next update instead of being dropped.
+  useEffect(() => {
+    if (!archiveLoaded) return;
+    const next = allImages;
+    syncQueueRef.current = syncQueueRef.current
+      .then(() => syncFrames(persistedRef.current, next))
+      .then(() => { persistedRef.current = next; })
+      .catch(e => console.error("Archive Sync Error:", e));
+  }, [allImages, archiveLoaded]);
+
+  // The scheduler polls instead of sleeping for a whole interval, so schedule edits, capture windows and
+  // missed slots after the device wakes all take effect on the next tick. Background tabs throttle the
+  // poll, so each capture is logged against the slot it fulfilled and skipped slots are logged as gaps.
+  // Every project keeps its own cadence; one tick serves all of them.
+  useEffect(() => {
+    if (!active || !archiveLoaded) return;
+    const tick = () => {
+      const now = Date.now();
+      projectsRef.current.forEach(({ id, intervalHours, schedule }) => {
+        const intervalMs = intervalHours * 60 * 60 * 1000;
+        const last = lastCaptureTime(id);
+        const next = getNextCaptureTime(last, now, intervalMs, schedule);
+        if (next === null || now < next) return;
+        const { plannedAt, missedSlots } = last === null ? { plannedAt: next, missedSlots: 0 } : auditCapture(last, now, intervalMs, schedule);
+        if (missedSlots > 0) logCapture({ kind: 'gap', gapStart: last!, missedSlots, projectId: id });
+        lastAttemptRef.current[id] = now;
+        // Metering and the flash restore can throw inside capture(); the slot is still accounted for.
+        captureAndProcess(id, plannedAt).catch((e: any) => {
+          console.error("Capture Error:", e);
+          logCapture({ kind: 'rejected', plannedAt, detail: `capture failed (${e.message || e})`, projectId: id });
+        });
+      });
+    };
+    const onVisibility = () => {
+      logCapture({ kind: 'visibility', detail: document.visibilityState });
+      if (document.visibilityState === 'visible') tick();
+    };
+    logCapture({ kind: 'session-start' });
+    const kickoff = setTimeout(tick, 1000);
+    intervalRef.current = setInterval(tick, SCHEDULER_TICK_MS);
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      clearTimeout(kickoff);
+      clearInterval(intervalRef.current);
+      document.removeEventListener('visibilitychange', onVisibility);
+      logCapture({ kind: 'session-stop' });
+    };
+  }, [active, archiveLoaded]);
+
+  // Browsers drop the screen wake lock whenever the tab is hidden, so it is re-acquired on return.
+  useEffect(() => {
+    if (!active || !settings.wakeLockActive) return;
+    if (!('wakeLock' in navigator)) {
+      logCapture({ kind: 'wake-lock', detail: 'unsupported' });
+      return;
     }
-    return () => clearInterval(intervalRef.current);
-  }, [active, settings.intervalHours]);
+    let sentinel: WakeLockSentinel | null = null;
+    let disposed = false;
+    const acquire = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (disposed) {
+          lock.release();
+          return;
+        }
+        sentinel = lock;
+        logCapture({ kind: 'wake-lock', detail: 'acquired' });
+        lock.addEventListener('release', () => { if (!disposed) logCapture({ kind: 'wake-lock', detail: 'released' }); });
+      } catch (e: any) {
+        logCapture({ kind: 'wake-lock', detail: `failed (${e.message})` });
+      }
+    };
+    const onVisibility = () => {
+      if (document.visibilityState === 'visible' && (!sentinel || sentinel.released)) acquire();
+    };
+    acquire();
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => {
+      disposed = true;
+      document.removeEventListener('visibilitychange', onVisibility);
+      if (sentinel && !sentinel.released) {
+        sentinel.release();
+        logCapture({ kind: 'wake-lock', detail: 'released' });
+      }
+    };
+  }, [active, settings.wakeLockActive]);
 
   useEffect(() => {
     if (playbackMode && images.length > 0 && settings.autoAdvance) {
@@ -119,52 +389,358 @@ const App: React.FC = () => {
     return () => clearInterval(playbackRef.current);
   }, [playbackMode, images, settings.playbackFps, settings.autoAdvance]);
 
-  const captureAndProcess = async () => {
-    if (cameraRef.current) {
-      const dataUrl = cameraRef.current.capture();
-      if (dataUrl) {
-        const newImage: CapturedImage = { id: Date.now().toString(), timestamp: Date.now(), dataUrl };
-        setImages(prev => [...prev, newImage]);
-        if (settings.autoAnalyze) {
-          try {
-            const prompt = `Analyze plant snapshot. [HEALTH: STATUS][STAGE: stage][TAGS: tag1][ADVICE: text][CONFIDENCE: X%]`;
-            const analysis = await analyzeImage(dataUrl, prompt);
-            const metadata = parseMetaData(analysis);
-            setImages(prev => prev.map(img => img.id === newImage.id ? { ...img, analysis, ...metadata } : img));
-          } catch (e) { console.error(e); }
-        }
+  const lastCaptureTime = (projectId: string) => {
+    const frames: CapturedImage[] = inProject(imagesRef.current, projectId);
+    return Math.max(frames[frames.length - 1]?.timestamp ?? 0, lastAttemptRef.current[projectId] ?? 0) || null;
+  };
+
+  const refreshDevices = () => {
+    listVideoDevices().then(setVideoDevices).catch(e => console.warn("Device Enumeration Error:", e));
+  };
+
+  const logCapture = (entry: Omit<CaptureLogEntry, 'id' | 'timestamp'>) => {
+    const record = createLogEntry(entry);
+    setCaptureLog(prev => [...prev, record]);
+    appendCaptureLog(record).catch(e => console.error("Capture Log Error:", e));
+  };
+
+  const logDelivery = (delivery: WebhookDelivery) => {
+    setDeliveries(prev => [...prev, delivery]);
+    appendDelivery(delivery).catch(e => console.error("Delivery Log Error:", e));
+  };
+
+  // Webhooks run in the background; a slow or failing endpoint never holds up capture or analysis.
+  const emitWebhook = (event: WebhookEvent, projectId: string | undefined, buildData: (includeImage: boolean) => object | Promise<object>) => {
+    const target = projectsRef.current.find(p => p.id === (projectId || DEFAULT_PROJECT_ID));
+    dispatchWebhookEvent(webhooksRef.current, event, target ? { id: target.id, name: target.name } : null, buildData, logDelivery)
+      .catch(e => console.error("Webhook Error:", e));
+  };
+
+  const testWebhook = async (hook: WebhookConfig) => logDelivery(await sendTestEvent(hook));
+
+  // Alerts land in the feed first; notification and speech are best-effort extras per rule.
+  const raiseAlerts = (raised: Alert[]) => {
+    if (raised.length === 0) return;
+    alertsRef.current = [...alertsRef.current, ...raised];
+    setAlerts(prev => [...prev, ...raised]);
+    raised.forEach(alert => {
+      saveAlert(alert).catch(e => console.error("Alert Save Error:", e));
+      emitWebhook('alert.fired', alert.projectId, () => ({ alert }));
+      const rule = settingsRef.current.alertRules.find(r => r.id === alert.ruleId);
+      if (rule?.notify) showNotification(alert);
+      if (rule?.speak) speakAlert(alert).catch(e => console.warn("Alert Speech Error:", e));
+    });
+  };
+
+  // Streams that fail while monitoring is off are user-facing errors only, not outages.
+  const handleCameraOffline = (projectId: string, message: string) => {
+    const target = projectsRef.current.find(p => p.id === projectId);
+    if (!activeRef.current || !target) return;
+    raiseAlerts(evaluateCameraOffline(settingsRef.current.alertRules, projectId, target.name, message, alertsRef.current));
+  };
+
+  const captureAndProcess = async (projectId: string, plannedAt?: number) => {
+    const camera = cameraRefs.current[projectId];
+    const target = projectsRef.current.find(p => p.id === projectId);
+    if (!target) return;
+    const frame = camera ? await camera.capture() : null;
+    if (!frame) {
+      // A scheduled slot the camera could not take is still logged, so capture health does not read as complete.
+      if (plannedAt !== undefined) logCapture({ kind: 'rejected', plannedAt, detail: 'camera unavailable', projectId });
+      return;
+    }
+    const { dataUrl, flash: flashUsed } = frame;
+    const capturedAt = Date.now();
+    const frameId = Math.max(capturedAt, lastFrameIdRef.current + 1);
+    lastFrameIdRef.current = frameId;
+    const { autoAnalyze, quality: qualitySettings } = resolveSettings(target, settingsRef.current);
+    const region = target.regions.find(r => r.id === target.activeRegionId);
+    const history: CapturedImage[] = inProject(imagesRef.current, projectId);
+    const previous = history[history.length - 1];
+    let quality: FrameQuality | undefined;
+    let skipAnalysis = false;
+    try {
+      const verdict = applyQualityPolicies(await assessFrameQuality(dataUrl, qualitySettings, previous?.quality?.hash), qualitySettings);
+      // Only scheduled captures are discarded; a manual snapshot is deliberate, so it is kept and flagged.
+      if (verdict.discard && plannedAt !== undefined) {
+        logCapture({ kind: 'rejected', plannedAt, detail: verdict.quality.issues.join(', '), projectId });
+        return;
       }
+      quality = verdict.quality;
+      skipAnalysis = verdict.skipAnalysis;
+    } catch (e) {
+      console.warn("Quality Check Error:", e);
+    }
+    const analyze = autoAnalyze && !skipAnalysis;
+    const newImage: CapturedImage = { id: frameId.toString(), timestamp: capturedAt, dataUrl, analysisStatus: analyze ? 'pending' : undefined, plannedAt, quality, region, flash: flashUsed || undefined, projectId };
+    setImages(prev => [...prev, newImage]);
+    emitWebhook('frame.captured', projectId, includeImage => frameData(newImage, includeImage));
+    if (plannedAt !== undefined) logCapture({ kind: 'capture', plannedAt, delayMs: newImage.timestamp - plannedAt, projectId });
+    // Local metrics need no network, so every capture gets them regardless of autoAnalyze.
+    computeFrameMetrics(dataUrl)
+      .then(metrics => setImages(prev => prev.map(img => img.id === newImage.id ? { ...img, metrics } : img)))
+      .catch(e => console.warn("Metrics Error:", e));
+    const reference = alignmentReferenceRef.current[projectId];
+    if (reference) {
+      estimateAlignment(reference, dataUrl)
+        .then(alignment => setImages(prev => prev.map(img => img.id === newImage.id ? { ...img, alignment } : img)))
+        .catch(e => console.warn("Alignment Error:", e));
     }
+    if (analyze) await analyzeFrame(newImage);
   };
 
+  // Runs the vision pipeline for one frame and writes the outcome back onto it.
+  const analyzeFrame = async (frame: CapturedImage) => {
+    setImages(prev => prev.map(img => img.id === frame.id ? { ...img, analysisStatus: 'pending' } : img));
+    try {
+      const dataUrl = await resolveImageData(frame);
+      const owner = projectsRef.current.find(p => p.id === projectIdOf(frame));
+      const { alertRules, minConfidenceThreshold } = owner ? resolveSettings(owner, settingsRef.current) : settingsRef.current;
+      const result = await analyzeWithSecondOpinion(dataUrl, minConfidenceThreshold, owner && buildPlantContext(owner));
+      setImages(prev => prev.map(img => img.id === frame.id ? { ...img, ...result, analysisStatus: 'complete', analysisError: undefined } : img));
+      emitWebhook('analysis.completed', frame.projectId, includeImage => frameData({ ...frame, ...result, analysisStatus: 'complete' }, includeImage));
+      const history: CapturedImage[] = inProject(imagesRef.current, projectIdOf(frame));
+      raiseAlerts(evaluateFrame(alertRules, { ...frame, ...result }, history, minConfidenceThreshold, owner?.name || 'Plant', alertsRef.current));
+    } catch (e: any) {
+      console.error(e);
+      setImages(prev => prev.map(img => img.id === frame.id ? { ...img, analysisStatus: 'failed', analysisError: e.message } : img));
+    }
+  };
+
+  // Bulk re-analysis runs one frame at a time to stay within API rate limits.
+  const reanalyzeFrames = async (ids: string[]) => {
+    for (const frame of images.filter(img => ids.includes(img.id))) {
+      await analyzeFrame(frame);
+    }
+  };
+
+  // Registers every frame onto the reference, one at a time; new captures are aligned as they arrive.
+  const alignArchive = async (reference: CapturedImage) => {
+    setAlignProgress(0);
+    try {
+      const prepared = await prepareReference(reference);
+      alignmentReferenceRef.current[project.id] = prepared;
+      updateProject(project.id, { alignmentReferenceId: reference.id });
+      updatePlantSettings({ stabilize: true });
+      const frames = images;
+      for (let i = 0; i < frames.length; i++) {
+        try {
+          const alignment = await estimateAlignment(prepared, frames[i].dataUrl);
+          setImages(prev => prev.map(img => img.id === frames[i].id ? { ...img, alignment } : img));
+        } catch (e) { console.warn("Alignment skipped frame", frames[i].id, e); }
+        setAlignProgress((i + 1) / frames.length);
+      }
+    } catch (e) {
+      console.error("Alignment Error:", e);
+    } finally {
+      setAlignProgress(null);
+    }
+  };
+
+  const deleteFrames = (ids: string[]) => {
+    setImages(prev => prev.filter(img => !ids.includes(img.id)));
+    if (selectedImage && ids.includes(selectedImage.id)) setSelectedImage(null);
+    setChatAttachments(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  const currentHealth = getCurrentHealth(images, plantSettings.minConfidenceThreshold);
+  const projectLog = logForProject(captureLog, project.id);
+  const captureHealth = summarizeCaptureHealth(projectLog, currentTime.getTime(), active);
+  const nextCapture = active
+    ? getNextCaptureTime(lastCaptureTime(project.id), currentTime.getTime(), project.intervalHours * 60 * 60 * 1000, project.schedule)
+    : null;
+  const todaySun = project.schedule.latitude !== undefined && project.schedule.longitude !== undefined
+    ? getSunTimes(currentTime, project.schedule.latitude, project.schedule.longitude)
+    : null;
+  const projectMessages = chatMessages.filter(m => projectIdOf(m) === project.id);
+  const otherProjects = projects.filter(p => p.id !== project.id);
+
   const handleManualCapture = async () => {
     setFlash(true);
     setTimeout(() => setFlash(false), 150);
-    await captureAndProcess();
+    await captureAndProcess(project.id);
   };
 
-  const parseMetaData = (text: string) => {
-    const confidence = text.match(/\[CONFIDENCE:\s*(\d+)%?\]/i);
-    const health = text.match(/\[HEALTH:\s*(HEALTHY|STRESSED|CRITICAL)\]/i);
-    return {
-      confidence: confidence ? parseInt(confidence[1]) : undefined,
-      healthStatus: health ? (health[1].toUpperCase() as any) : undefined
-    };
+  // Shift+Click on the timeline attaches every frame between the last attachment and this one,
+  // thinned evenly so a long range still fits in one request.
+  const handleAttachFrame = (img: CapturedImage, extendRange: boolean = false) => {
+    if (extendRange && chatAttachments.length > 0) {
+      const anchor = images.findIndex(i => i.id === chatAttachments[chatAttachments.length - 1]);
+      const target = images.findIndex(i => i.id === img.id);
+      const range = images.slice(Math.min(anchor, target), Math.max(anchor, target) + 1);
+      const step = Math.max(1, (range.length - 1) / (MAX_CHAT_ATTACHMENTS - 1));
+      const sampled = range.length <= MAX_CHAT_ATTACHMENTS
+        ? range
+        : Array.from({ length: MAX_CHAT_ATTACHMENTS }, (_, i) => range[Math.round(i * step)]);
+      setChatAttachments(sampled.map(i => i.id));
+      return;
+    }
+    setChatAttachments(prev => prev.includes(img.id)
+      ? prev.filter(id => id !== img.id)
+      : [...prev, img.id].slice(-MAX_CHAT_ATTACHMENTS));
   };
 
   const handleChatSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!userInput.trim()) return;
-    const newMsg: ChatMessage = { id: Date.now().toString(), role: 'user', text: userInput, timestamp: Date.now() };
+    const attached = images.filter(img => chatAttachments.includes(img.id));
+    const newMsg: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'user',
+      text: userInput,
+      timestamp: Date.now(),
+      attachments: attached.length > 0 ? attached.map(img => img.id) : undefined,
+      projectId: project.id
+    };
     setChatMessages(prev => [...prev, newMsg]);
     setUserInput('');
+    setChatAttachments([]);
     setIsProcessing(true);
     try {
-      const result = await sendMessage(chatMessages, newMsg.text);
-      setChatMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', text: result.text || "", timestamp: Date.now() }]);
+      const attachments = await Promise.all(attached.map(async img => ({
+        dataUrl: await resolveImageData(img),
+        label: `Frame ${img.id} captured ${new Date(img.timestamp).toISOString()}${img.healthStatus ? ` (last analysis: ${img.healthStatus}, ${img.growthStage})` : ''}:`
+      })));
+      const result = await sendMessage(
+        projectMessages,
+        newMsg.text,
+        chatMode === 'thinking',
+        chatMode === 'search',
+        chatMode === 'maps',
+        chatMode === 'maps' ? location : undefined,
+        attachments,
+        buildObservationContext(newMsg.text, images, plantSettings.minConfidenceThreshold, projectCare),
+        buildPlantContext(project)
+      );
+      const text = result.text || "";
+      setChatMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'model',
+        text,
+        timestamp: Date.now(),
+        isThinking: chatMode === 'thinking',
+        groundingUrls: extractGroundingUrls(result.groundingMetadata),
+        frameCitations: extractFrameCitations(text).filter(id => images.some(img => img.id === id)),
+        projectId: newMsg.projectId
+      }]);
     } catch (e) { console.error(e); } finally { setIsProcessing(false); }
   };
 
+  const jumpToFrame = (id: string) => {
+    const img = images.find(i => i.id === id);
+    if (!img) return;
+    setPlaybackMode(false);
+    setSelectedImage(img);
+  };
+
+  // Chips are mutually exclusive; tapping the active one returns to the standard model.
+  const toggleChatMode = (mode: ChatMode) => {
+    const next = chatMode === mode ? 'standard' : mode;
+    setChatMode(next);
+    if (next === 'maps' && !location) requestLocation();
+  };
+
+  const updateProject = (id: string, patch: Partial<Project>) =>
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, ...patch } : p));
+
+  const updatePlantSettings = (patch: ProjectSettings) => {
+    const id = project.id;
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, settings: { ...p.settings, ...patch } } : p));
+  };
+
+  const updateQuality = (patch: Partial<MonitorSettings['quality']>) =>
+    updatePlantSettings({ quality: { ...plantSettings.quality, ...patch } });
+
+  const updateSchedule = (patch: Partial<CaptureSchedule>) => {
+    const id = project.id;
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, schedule: { ...p.schedule, ...patch } } : p));
+  };
+
+  const selectProject = (id: string) => {
+    setSelectedProjectId(id);
+    setSelectedImage(null);
+    setPlaybackMode(false);
+    setChatAttachments([]);
+  };
+
+  const addProject = () => {
+    const created = createProject(`Plant ${String(projects.length + 1).padStart(2, '0')}`, project);
+    setProjects(prev => [...prev, created]);
+    selectProject(created.id);
+  };
+
+  // Entries can be back-dated, so the journal is kept sorted by when the care happened.
+  const addCareEvent = (entry: Omit<CareEvent, 'id' | 'projectId'>) => {
+    const event = createCareEvent({ ...entry, projectId: project.id });
+    setCareEvents(prev => [...prev, event].sort((a, b) => a.timestamp - b.timestamp));
+    saveCareEvent(event).catch(e => console.error("Care Journal Error:", e));
+  };
+
+  const removeCareEvent = (id: string) => {
+    setCareEvents(prev => prev.filter(e => e.id !== id));
+    deleteCareEvent(id).catch(e => console.error("Care Journal Error:", e));
+  };
+
+  const openAlert = (alert: Alert) => {
+    const frame = allImages.find(img => img.id === alert.frameId);
+    if (projectIdOf(alert) !== project.id) selectProject(projectIdOf(alert));
+    if (frame) setSelectedImage(frame);
+    acknowledgeAlerts([alert.id]);
+  };
+
+  const acknowledgeAlerts = (ids: string[]) => {
+    const updated = alerts.filter(a => ids.includes(a.id) && !a.acknowledged).map(a => ({ ...a, acknowledged: true }));
+    setAlerts(prev => prev.map(a => updated.find(u => u.id === a.id) || a));
+    updated.forEach(a => saveAlert(a).catch(e => console.error("Alert Save Error:", e)));
+  };
+
+  const removeProject = () => {
+    if (projects.length < 2 || !confirm(`Delete ${project.name}, its ${images.length} frames and its journal, reports and alerts?`)) return;
+    const id = project.id;
+    setImages(prev => prev.filter(img => projectIdOf(img) !== id));
+    setCaptureLog(prev => prev.filter(e => !isOwnedEntry(e, id)));
+    setCareEvents(prev => prev.filter(e => projectIdOf(e) !== id));
+    setAlerts(prev => prev.filter(a => projectIdOf(a) !== id));
+    setChatMessages(prev => prev.filter(m => projectIdOf(m) !== id));
+    delete alignmentReferenceRef.current[id];
+    delete lastAttemptRef.current[id];
+    deleteProjectData(id).catch(e => console.error("Project Delete Error:", e));
+    setProjects(prev => prev.filter(p => p.id !== id));
+    selectProject(otherProjects[0].id);
+  };
+
+  // Sun times are computed locally; only the coordinates are kept, in the project schedule.
+  const locateSchedule = () => {
+    if (!navigator.geolocation) {
+      setLocationError("Geolocation unavailable on this device.");
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (pos) => updateSchedule({ latitude: Math.round(pos.coords.latitude * 1000) / 1000, longitude: Math.round(pos.coords.longitude * 1000) / 1000 }),
+      (err) => {
+        console.warn("Geolocation error", err);
+        setLocationError(err.code === err.PERMISSION_DENIED ? "Location access denied." : "Location unavailable.");
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 60 * 60 * 1000 }
+    );
+  };
+
+  const requestLocation = () => {
+    if (!navigator.geolocation) {
+      setLocationError("Geolocation unavailable on this device.");
+      return;
+    }
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => setLocation({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      (err) => {
+        console.warn("Geolocation error", err);
+        setLocationError(err.code === err.PERMISSION_DENIED ? "Location access denied." : "Location unavailable.");
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 10 * 60 * 1000 }
+    );
+  };
+
   return (
     <div className="min-h-screen bg-cyber-900 text-gray-200 font-sans flex flex-col selection:bg-cyber-accent selection:text-black">
       {/* Stealth Mode Overlay - Better Visuals */}
@@ -193,6 +769,21 @@ const App: React.FC = () => {
           <Leaf className="text-cyber-accent w-6 h-6 drop-shadow-[0_0_8px_rgba(132,204,22,0.4)]"/>
           <h1 className="font-mono font-bold tracking-tighter text-lg bg-gradient-to-r from-white to-gray-500 bg-clip-text text-transparent">CHRONOS <span className="text-cyber-accent">GAIA</span></h1>
         </div>
+        <div className="flex items-center gap-1 p-1 bg-black/40 rounded-lg border border-white/5">
+          {([
+            { mode: AppMode.MONITOR, label: 'Monitor', icon: <Camera size={12}/> },
+            { mode: AppMode.GALLERY, label: 'Gallery', icon: <Images size={12}/> },
+            { mode: AppMode.DASHBOARD, label: 'Dashboard', icon: <BarChart3 size={12}/> }
+          ]).map(tab => (
+            <button 
+              key={tab.mode}
+              onClick={() => setMode(tab.mode)} 
+              className={`flex items-center gap-1.5 px-3 py-1 rounded text-[10px] font-mono font-bold uppercase tracking-widest transition-all ${mode === tab.mode ? 'bg-cyber-accent text-black' : 'text-gray-500 hover:text-white'}`}
+            >
+              {tab.icon} {tab.label}
+            </button>
+          ))}
+        </div>
         <div className="flex items-center gap-2">
           <button 
             onClick={() => setStealthMode(!stealthMode)} 
@@ -220,22 +811,68 @@ const App: React.FC = () => {
       <div className="flex-1 flex overflow-hidden">
         {/* Main Feed and Timeline */}
         <main className="flex-1 p-6 space-y-6 overflow-y-auto custom-scrollbar">
-          <div className="grid lg:grid-cols-12 gap-6">
+          {mode === AppMode.GALLERY && (
+            <Gallery 
+              images={images} 
+              minConfidenceThreshold={plantSettings.minConfidenceThreshold} 
+              onDelete={deleteFrames} 
+              onReanalyze={reanalyzeFrames} 
+              onExport={(ids) => setExportFrames(images.filter(img => ids.includes(img.id)))} 
+              onCompare={(ids) => setCompareIds(ids)} 
+            />
+          )}
+          {mode === AppMode.DASHBOARD && (
+            <Dashboard 
+              images={images} 
+              minConfidenceThreshold={plantSettings.minConfidenceThreshold} 
+              selectedId={selectedImage?.id} 
+              onSelectFrame={(id) => setSelectedImage(images.find(img => img.id === id) || null)} 
+              careEvents={projectCare}
+            />
+          )}
+          {/* The monitor stays mounted in other modes so the camera and capture loop keep running */}
+          <div className={`grid lg:grid-cols-12 gap-6 ${mode === AppMode.MONITOR ? '' : 'hidden'}`}>
             <div className="lg:col-span-8 space-y-6">
               <div className="aspect-video bg-black rounded-xl overflow-hidden border border-cyber-700/50 relative shadow-2xl group ring-1 ring-white/5">
                 {/* Visual Flash Effect */}
                 <div className={`absolute inset-0 bg-white z-[60] pointer-events-none transition-opacity duration-200 ease-out ${flash ? 'opacity-80' : 'opacity-0'}`}></div>
 
-                {playbackMode && selectedImage ? (
-                  <img src={selectedImage.dataUrl} className="w-full h-full object-contain" alt="Selected Frame" />
-                ) : (
-                  <CameraFeed 
-                    ref={cameraRef} 
-                    active={isCameraEnabled} 
-                    facingMode={settings.facingMode} 
-                    resolution={settings.resolution}
-                    onResolutionChange={(res) => setSettings({...settings, resolution: res})}
-                  />
+                {/* The feed stays mounted under playback so scheduled captures keep running */}
+                <CameraFeed 
+                  key={project.id}
+                  className="isolate"
+                  ref={handle => { cameraRefs.current[project.id] = handle; }} 
+                  active={isCameraEnabled} 
+                  facingMode={settings.facingMode} 
+                  resolution={plantSettings.resolution}
+                  onResolutionChange={(res) => updatePlantSettings({ resolution: res })}
+                  flashMode={plantSettings.flashMode}
+                  onFlashModeChange={(flashMode) => updatePlantSettings({ flashMode })}
+                  deviceId={project.deviceId}
+                  label={project.name.toUpperCase()}
+                  onStreamStart={refreshDevices}
+                  onStreamError={(message) => handleCameraOffline(project.id, message)}
+                  regions={project.regions}
+                  activeRegionId={project.activeRegionId}
+                  onRegionsChange={(regions) => updateProject(project.id, { regions })}
+                  onActiveRegionChange={(activeRegionId) => updateProject(project.id, { activeRegionId })}
+                  controls={project.cameraControls}
+                  onControlsChange={(cameraControls) => updateProject(project.id, { cameraControls })}
+                />
+                {playbackMode && selectedImage && (
+                  <div className="absolute inset-0 bg-black">
+                    <AlignedImage src={selectedImage.dataUrl} alignment={plantSettings.stabilize ? selectedImage.alignment : undefined} className="w-full h-full" alt="Selected Frame" />
+                    <div className="absolute top-4 left-4 flex flex-col gap-2 max-w-[60%]">
+                      <div className="self-start bg-black/60 px-3 py-1 rounded border border-cyber-accent/30 backdrop-blur-md text-[10px] font-mono text-cyber-accent font-bold tracking-widest">
+                        {formatTimestamp(selectedImage.timestamp, settings.timestampPrecision)}
+                      </div>
+                      {getDownweightReason(selectedImage, plantSettings.minConfidenceThreshold) && (
+                        <div className="flex items-start gap-2 bg-black/70 px-3 py-1.5 rounded border border-yellow-500/30 backdrop-blur-md text-[10px] font-mono text-yellow-400">
+                          <AlertTriangle size={12} className="shrink-0 mt-0.5"/> {getDownweightReason(selectedImage, plantSettings.minConfidenceThreshold)}
+                        </div>
+                      )}
+                    </div>
+                  </div>
                 )}
                 
                 {/* Bottom Left Feed Controls */}
@@ -275,22 +912,112 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {/* Camera Rack: every other project keeps its own feed running for the scheduler */}
+              {otherProjects.length > 0 && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {otherProjects.map(p => (
+                    <div 
+                      key={p.id} 
+                      onClick={() => selectProject(p.id)} 
+                      className="relative aspect-video rounded-lg overflow-hidden border border-white/10 cursor-pointer hover:border-cyber-accent/50 transition-colors"
+                      title={`Switch to ${p.name}`}
+                    >
+                      <CameraFeed 
+                        ref={handle => { cameraRefs.current[p.id] = handle; }} 
+                        active={isCameraEnabled} 
+                        facingMode={settings.facingMode} 
+                        resolution={resolveSettings(p, settings).resolution}
+                        flashMode={resolveSettings(p, settings).flashMode}
+                        deviceId={p.deviceId}
+                        label={p.name.toUpperCase()}
+                        compact
+                        onStreamStart={refreshDevices}
+                        onStreamError={(message) => handleCameraOffline(p.id, message)}
+                        regions={p.regions}
+                        activeRegionId={p.activeRegionId}
+                        controls={p.cameraControls}
+                      />
+                      <span className="absolute bottom-2 right-2 z-20 text-[9px] font-mono text-gray-400 bg-black/60 px-1.5 rounded">{inProject(allImages, p.id).length} FRAMES</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Timeline Display */}
               <div className="bg-cyber-800/20 p-5 rounded-xl border border-white/5 backdrop-blur-sm">
                 <div className="flex justify-between items-center mb-6">
                   <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-3 uppercase tracking-[0.2em]">
                     <Clock size={12} className="text-cyber-accent"/> Timeline 
-                    <span className="text-white bg-white/5 px-2 py-0.5 rounded ml-2">{images.length} FRAMES</span>
+                    {projects.length > 1 && <span className="text-cyber-accent">{project.name}</span>}
+                    <span className="text-white bg-white/5 px-2 py-0.5 rounded ml-2">{archiveLoaded ? `${images.length} FRAMES` : 'RESTORING...'}</span>
+                    {currentHealth && (
+                      <span className={`px-2 py-0.5 rounded border ${currentHealth === 'HEALTHY' ? 'text-cyber-accent border-cyber-accent/30' : currentHealth === 'STRESSED' ? 'text-yellow-400 border-yellow-500/30' : 'text-red-400 border-red-500/30'}`}>{currentHealth}</span>
+                    )}
                   </h3>
-                  <button 
-                    onClick={() => { if(confirm("Purge all monitoring data?")) setImages([]); }} 
-                    className="text-[9px] text-gray-500 hover:text-red-500 flex items-center gap-1 uppercase tracking-widest transition-colors"
-                  >
-                    <Trash2 size={10}/> Purge Data
-                  </button>
+                  <div className="flex items-center gap-4">
+                    <button 
+                      onClick={() => setCompareIds([images[0].id, (selectedImage || images[images.length - 1]).id])} 
+                      disabled={images.length < 2}
+                      className="text-[9px] text-gray-500 hover:text-cyber-accent flex items-center gap-1 uppercase tracking-widest transition-colors disabled:opacity-30"
+                    >
+                      <Columns size={10}/> Compare
+                    </button>
+                    <button 
+                      onClick={() => images.length > 0 && setExportFrames(images)} 
+                      disabled={images.length === 0}
+                      className="text-[9px] text-gray-500 hover:text-cyber-accent flex items-center gap-1 uppercase tracking-widest transition-colors disabled:opacity-30"
+                    >
+                      <Film size={10}/> Export
+                    </button>
+                    <button 
+                      onClick={() => { if(confirm(`Purge all monitoring data of ${project.name}?`)) setImages(prev => prev.filter(img => projectIdOf(img) !== project.id)); }} 
+                      className="text-[9px] text-gray-500 hover:text-red-500 flex items-center gap-1 uppercase tracking-widest transition-colors"
+                    >
+                      <Trash2 size={10}/> Purge Data
+                    </button>
+                  </div>
                 </div>
-                <Timeline images={images} onSelect={(img) => { setPlaybackMode(false); setSelectedImage(img); }} />
+                <Timeline 
+                  images={images} 
+                  minConfidenceThreshold={plantSettings.minConfidenceThreshold} 
+                  onSelect={(img) => { setPlaybackMode(false); setSelectedImage(img); }} 
+                  attachedIds={chatAttachments}
+                  onAttach={handleAttachFrame}
+                  selectedId={selectedImage?.id}
+                  gaps={captureHealth.gaps}
+                  careEvents={projectCare}
+                />
               </div>
+
+              <MetricsPanel images={images} selectedId={selectedImage?.id} onSelectFrame={jumpToFrame} careEvents={projectCare} />
+
+              <CareJournalPanel events={projectCare} onAdd={addCareEvent} onDelete={removeCareEvent} />
+
+              <CaptureHealthPanel 
+                log={projectLog} 
+                summary={captureHealth} 
+                onClear={() => clearCaptureLog().then(() => setCaptureLog([])).catch(e => console.error("Capture Log Error:", e))} 
+              />
+
+              <AlertsPanel
+                alerts={alerts}
+                projectNames={Object.fromEntries(projects.map(p => [p.id, p.name]))}
+                rules={settings.alertRules}
+                onRulesChange={(alertRules) => setSettings(prev => ({ ...prev, alertRules }))}
+                onOpen={openAlert}
+                onAcknowledge={acknowledgeAlerts}
+                onClear={() => clearAlerts().then(() => setAlerts([])).catch(e => console.error("Alert Error:", e))}
+              />
+
+              <InsightsPanel images={images} projectId={project.id} onSelectFrame={jumpToFrame} />
+
+              <WebhooksPanel
+                hooks={webhooks}
+                onChange={setWebhooks}
+                deliveries={deliveries}
+                onTest={testWebhook}
+                onClearLog={() => clearDeliveries().then(() => setDeliveries([])).catch(e => console.error("Delivery Log Error:", e))}
+              />
             </div>
 
             {/* AI Console Sidebar - Mid-page layout */}
@@ -299,23 +1026,59 @@ const App: React.FC = () => {
                 <div className="p-4 bg-black/30 border-b border-white/5 font-mono text-[10px] flex justify-between items-center uppercase tracking-[0.1em]">
                   <span className="text-gray-400 flex items-center gap-2"><Terminal size={12}/> Console // Gaia v3.1</span>
                   <button 
-                    onClick={() => images.length > 0 && generateGrowthReport(images.map(i => i.analysis || ""))} 
+                    onClick={() => setShowReports(true)} 
                     className="text-cyber-accent hover:text-white flex items-center gap-1.5 transition-colors"
                   >
-                    <FileText size={12}/> Gen Report
+                    <FileText size={12}/> Reports
                   </button>
                 </div>
                 <div className="flex-1 overflow-y-auto p-5 space-y-6 custom-scrollbar text-justify leading-relaxed">
-                  {chatMessages.length === 0 && (
+                  {projectMessages.length === 0 && (
                     <div className="h-full flex flex-col items-center justify-center text-gray-700 opacity-40">
                       <BrainCircuit size={48} className="mb-4 text-cyber-accent/20" />
                       <p className="text-[10px] font-mono text-center tracking-widest uppercase">Awaiting Neural Input...</p>
                     </div>
                   )}
-                  {chatMessages.map(m => (
+                  {projectMessages.map(m => (
                     <div key={m.id} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
                       <div className={`p-3.5 rounded-xl text-xs sm:text-sm max-w-[95%] shadow-sm ${m.role === 'user' ? 'bg-cyber-700/80 text-white border border-cyber-accent/20' : 'bg-black/50 border border-white/5 text-gray-300'}`}>
-                        {m.text}
+                        {m.attachments && m.attachments.length > 0 && (
+                          <div className="flex flex-wrap gap-1.5 mb-2">
+                            {m.attachments.map(id => {
+                              const img = images.find(i => i.id === id);
+                              return img ? (
+                                <img key={id} src={img.dataUrl} alt="Attachment" onClick={() => setSelectedImage(img)} className="w-14 h-10 object-cover rounded border border-white/20 cursor-pointer" title={new Date(img.timestamp).toLocaleString()} />
+                              ) : (
+                                <div key={id} className="w-14 h-10 rounded border border-dashed border-white/20 flex items-center justify-center text-[7px] font-mono text-gray-500">ID-{id.slice(-4)}</div>
+                              );
+                            })}
+                          </div>
+                        )}
+                        {m.isThinking && (
+                          <div className="flex items-center gap-1 text-[8px] font-mono text-cyber-accent/60 uppercase tracking-widest mb-1.5"><BrainCircuit size={10}/> Deep Think</div>
+                        )}
+                        {m.frameCitations && m.frameCitations.length > 0 ? splitFrameCitations(m.text).map((part, i) => typeof part === 'string' ? (
+                          <React.Fragment key={i}>{part}</React.Fragment>
+                        ) : (
+                          <button 
+                            key={i} 
+                            onClick={() => jumpToFrame(part.frameId)} 
+                            disabled={!images.some(img => img.id === part.frameId)}
+                            className="inline-flex items-center mx-0.5 px-1.5 rounded bg-cyber-accent/10 border border-cyber-accent/30 text-[9px] font-mono text-cyber-accent hover:bg-cyber-accent hover:text-black transition-colors disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-cyber-accent"
+                            title="Show frame in timeline"
+                          >
+                            ID-{part.frameId.slice(-4)}
+                          </button>
+                        )) : m.text}
+                        {m.groundingUrls && m.groundingUrls.length > 0 && (
+                          <div className="mt-3 pt-2 border-t border-white/5 space-y-1 text-left">
+                            {m.groundingUrls.map((g, i) => (
+                              <a key={g.uri} href={g.uri} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1.5 text-[10px] font-mono text-cyber-success/80 hover:text-cyber-success truncate">
+                                <span className="text-gray-600">[{i + 1}]</span> {g.title || g.uri}
+                              </a>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       <span className="text-[8px] mt-1 text-gray-600 font-mono px-1">{new Date(m.timestamp).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}</span>
                     </div>
@@ -327,22 +1090,49 @@ const App: React.FC = () => {
                   )}
                 </div>
                 <form onSubmit={handleChatSubmit} className="p-4 bg-black/40 border-t border-white/5">
+                   {chatAttachments.length > 0 && (
+                     <div className="flex flex-wrap gap-1.5 mb-3">
+                       {chatAttachments.map(id => {
+                         const img = images.find(i => i.id === id);
+                         return img && (
+                           <div key={id} className="relative">
+                             <img src={img.dataUrl} alt="Attachment" className="w-12 h-9 object-cover rounded border border-cyber-success/40" />
+                             <button type="button" onClick={() => handleAttachFrame(img)} className="absolute -top-1.5 -right-1.5 bg-black rounded-full text-gray-400 hover:text-red-500 border border-white/10"><X size={10}/></button>
+                           </div>
+                         );
+                       })}
+                     </div>
+                   )}
                    <div className="relative group">
                     <input 
                       type="text" 
                       value={userInput} 
                       onChange={e => setUserInput(e.target.value)} 
                       placeholder="Query the Gaia network..." 
-                      className="w-full bg-black/50 border border-white/10 rounded-lg py-3 px-4 text-sm focus:outline-none focus:border-cyber-accent/50 focus:ring-1 focus:ring-cyber-accent/20 text-white transition-all placeholder:text-gray-600"
+                      className="w-full bg-black/50 border border-white/10 rounded-lg py-3 pl-4 pr-16 text-sm focus:outline-none focus:border-cyber-accent/50 focus:ring-1 focus:ring-cyber-accent/20 text-white transition-all placeholder:text-gray-600"
                     />
+                    <button 
+                      type="button" 
+                      onClick={() => selectedImage && !chatAttachments.includes(selectedImage.id) && handleAttachFrame(selectedImage)} 
+                      disabled={!selectedImage} 
+                      className="absolute right-10 top-3 text-cyber-success/50 hover:text-cyber-success transition-colors disabled:opacity-20" 
+                      title="Attach selected frame"
+                    >
+                      <Paperclip size={18}/>
+                    </button>
                     <button type="submit" disabled={isProcessing} className="absolute right-3 top-3 text-cyber-accent/50 hover:text-cyber-accent transition-colors disabled:opacity-20">
                       <MessageSquare size={18}/>
                     </button>
                    </div>
                    <div className="flex gap-4 mt-3 px-1">
-                      <div className="flex items-center gap-2 text-gray-600 hover:text-cyber-accent cursor-pointer transition-colors"><Radio size={12}/><span className="text-[9px] font-mono">LIVE</span></div>
-                      <div className="flex items-center gap-2 text-gray-600 hover:text-cyber-accent cursor-pointer transition-colors"><Globe size={12}/><span className="text-[9px] font-mono">GLOBAL</span></div>
-                      <div className="flex items-center gap-2 text-gray-600 hover:text-cyber-accent cursor-pointer transition-colors"><MapPin size={12}/><span className="text-[9px] font-mono">LOCATE</span></div>
+                      <div onClick={() => setLiveMode(true)} className="flex items-center gap-2 text-gray-600 hover:text-cyber-accent cursor-pointer transition-colors" title="Open live video link"><Radio size={12}/><span className="text-[9px] font-mono">LIVE</span></div>
+                      <div onClick={() => toggleChatMode('thinking')} className={`flex items-center gap-2 cursor-pointer transition-colors ${chatMode === 'thinking' ? 'text-cyber-accent' : 'text-gray-600 hover:text-cyber-accent'}`} title="Deep thinking mode"><BrainCircuit size={12}/><span className="text-[9px] font-mono">THINK</span></div>
+                      <div onClick={() => toggleChatMode('search')} className={`flex items-center gap-2 cursor-pointer transition-colors ${chatMode === 'search' ? 'text-cyber-accent' : 'text-gray-600 hover:text-cyber-accent'}`} title="Ground answers with Google Search"><Globe size={12}/><span className="text-[9px] font-mono">GLOBAL</span></div>
+                      <div onClick={() => toggleChatMode('maps')} className={`flex items-center gap-2 cursor-pointer transition-colors ${chatMode === 'maps' ? 'text-cyber-accent' : 'text-gray-600 hover:text-cyber-accent'}`} title={locationError || (location ? `Located at ${location.lat.toFixed(3)}, ${location.lng.toFixed(3)}` : 'Ground answers with Google Maps')}>
+                        <MapPin size={12} className={chatMode === 'maps' && !location && !locationError ? 'animate-pulse' : ''}/>
+                        <span className="text-[9px] font-mono">LOCATE</span>
+                        {chatMode === 'maps' && locationError && <AlertTriangle size={10} className="text-yellow-500"/>}
+                      </div>
                    </div>
                 </form>
               </div>
@@ -359,18 +1149,85 @@ const App: React.FC = () => {
             </div>
 
             <div className="space-y-10">
+              {/* Projects Section */}
+              <section className="space-y-3">
+                <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest flex items-center gap-2 font-bold"><Layers size={12}/> Project</label>
+                <div className="flex gap-1.5">
+                  <select 
+                    value={project.id} 
+                    onChange={e => selectProject(e.target.value)} 
+                    className="flex-1 min-w-0 bg-black/50 border border-white/10 rounded px-2 py-1.5 text-[10px] font-mono text-gray-300 focus:outline-none focus:border-cyber-accent/50"
+                  >
+                    {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                  <button onClick={addProject} className="p-1.5 border border-white/10 rounded text-gray-400 hover:text-cyber-accent hover:border-cyber-accent/50 transition-colors" title="New Project"><Plus size={12}/></button>
+                  <button onClick={removeProject} disabled={projects.length < 2} className="p-1.5 border border-white/10 rounded text-gray-400 hover:text-red-500 hover:border-red-500/50 transition-colors disabled:opacity-30" title="Delete Project"><Trash2 size={12}/></button>
+                </div>
+                <input 
+                  type="text" 
+                  value={project.name} 
+                  onChange={e => updateProject(project.id, { name: e.target.value })} 
+                  placeholder="Project name" 
+                  className="w-full bg-black/50 border border-white/10 rounded px-2 py-1.5 text-[11px] text-white focus:outline-none focus:border-cyber-accent/50"
+                />
+                <select 
+                  value={project.deviceId || ''} 
+                  onChange={e => updateProject(project.id, { deviceId: e.target.value || undefined })} 
+                  className="w-full bg-black/50 border border-white/10 rounded px-2 py-1.5 text-[10px] font-mono text-gray-300 focus:outline-none focus:border-cyber-accent/50"
+                >
+                  <option value="">Default Camera ({settings.facingMode === 'environment' ? 'Rear' : 'Front'})</option>
+                  {videoDevices.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || `Camera ${i + 1}`}</option>)}
+                </select>
+              </section>
+
+              {/* Plant Profile Section */}
+              <section className="space-y-3">
+                <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest flex items-center gap-2 font-bold"><Sprout size={12}/> Plant Profile</label>
+                <input 
+                  type="text" 
+                  value={project.species || ''} 
+                  onChange={e => updateProject(project.id, { species: e.target.value })} 
+                  placeholder="Species / cultivar (e.g. Ocimum basilicum 'Genovese')" 
+                  className="w-full bg-black/50 border border-white/10 rounded px-2 py-1.5 text-[11px] text-white focus:outline-none focus:border-cyber-accent/50 placeholder:text-gray-600"
+                />
+                <div className="flex items-center gap-2 text-[10px] font-mono text-gray-500">
+                  PLANTED
+                  <input 
+                    type="date" 
+                    value={project.plantedAt ? new Date(project.plantedAt).toISOString().slice(0, 10) : ''} 
+                    onChange={e => updateProject(project.id, { plantedAt: e.target.value ? new Date(e.target.value).getTime() : undefined })} 
+                    className="flex-1 bg-black/50 border border-white/10 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent/50"
+                  />
+                </div>
+                <input 
+                  type="text" 
+                  value={project.container || ''} 
+                  onChange={e => updateProject(project.id, { container: e.target.value })} 
+                  placeholder="Pot & medium (e.g. 12cm pot, peat-free compost)" 
+                  className="w-full bg-black/50 border border-white/10 rounded px-2 py-1.5 text-[11px] text-white focus:outline-none focus:border-cyber-accent/50 placeholder:text-gray-600"
+                />
+                <textarea 
+                  value={project.notes || ''} 
+                  onChange={e => updateProject(project.id, { notes: e.target.value })} 
+                  placeholder="Grower notes: light, location, history..." 
+                  rows={3}
+                  className="w-full bg-black/50 border border-white/10 rounded px-2 py-1.5 text-[11px] text-white focus:outline-none focus:border-cyber-accent/50 placeholder:text-gray-600 resize-none custom-scrollbar"
+                />
+                <p className="text-[9px] font-mono text-gray-600">{buildPlantContext(project) ? 'PROFILE SENT WITH EVERY ANALYSIS, CHAT AND LIVE SESSION' : 'NO PROFILE // ADVICE STAYS GENERIC'}</p>
+              </section>
+
               {/* Capture Frequency Section */}
               <section className="space-y-4">
                 <div className="flex justify-between items-center text-[10px] font-mono uppercase tracking-[0.1em]">
                   <span className="text-gray-500 flex items-center gap-2 font-bold"><Clock size={12}/> Capture Frequency</span>
-                  <span className="text-cyber-accent font-bold">{settings.intervalHours}h</span>
+                  <span className="text-cyber-accent font-bold">{project.intervalHours}h</span>
                 </div>
                 <div className="relative py-2">
                   <input 
                     type="range" 
                     min="0.1" max="24" step="0.1" 
-                    value={settings.intervalHours} 
-                    onChange={e => setSettings({...settings, intervalHours: parseFloat(e.target.value)})} 
+                    value={project.intervalHours} 
+                    onChange={e => updateProject(project.id, { intervalHours: parseFloat(e.target.value) })} 
                     className="w-full h-1 bg-[#1a2333] rounded-lg appearance-none cursor-pointer accent-cyber-accent"
                   />
                   <div className="flex justify-between mt-2 text-[8px] text-gray-600 font-mono">
@@ -380,18 +1237,93 @@ const App: React.FC = () => {
                 </div>
               </section>
 
+              {/* Capture Schedule Section */}
+              <section className="space-y-3">
+                <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest flex items-center gap-2 font-bold"><CalendarClock size={12}/> Capture Window</label>
+                <div className="grid grid-cols-3 gap-1 p-1 bg-black/40 rounded border border-white/5">
+                  {(['always', 'hours', 'daylight'] as const).map(w => (
+                    <button 
+                      key={w} 
+                      onClick={() => updateSchedule({ window: w })} 
+                      className={`py-1.5 text-[10px] rounded uppercase font-bold transition-all ${project.schedule.window === w ? 'bg-cyber-accent text-black shadow-lg shadow-cyber-accent/20' : 'text-gray-500 hover:text-white'}`}
+                    >
+                      {w}
+                    </button>
+                  ))}
+                </div>
+                {project.schedule.window === 'hours' && (
+                  <div className="flex items-center gap-2 text-[10px] font-mono text-gray-500">
+                    FROM
+                    <input type="number" min={0} max={23} value={project.schedule.startHour} onChange={e => updateSchedule({ startHour: Math.min(23, Math.max(0, parseInt(e.target.value) || 0)) })} className="w-14 bg-black/50 border border-white/10 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent/50" />
+                    TO
+                    <input type="number" min={0} max={24} value={project.schedule.endHour} onChange={e => updateSchedule({ endHour: Math.min(24, Math.max(0, parseInt(e.target.value) || 0)) })} className="w-14 bg-black/50 border border-white/10 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent/50" />
+                    H
+                  </div>
+                )}
+                {project.schedule.window === 'daylight' && (
+                  <div className="space-y-2 text-[10px] font-mono text-gray-500">
+                    <div className="flex items-center gap-2">
+                      <button onClick={locateSchedule} className="flex items-center gap-1 px-2 py-1 border border-white/10 rounded text-gray-300 hover:border-cyber-accent/50 hover:text-cyber-accent transition-colors"><MapPin size={10}/> Use Location</button>
+                      <span>{project.schedule.latitude !== undefined ? `${project.schedule.latitude}, ${project.schedule.longitude}` : 'NOT SET // USING HOURS'}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      SUN OFFSET
+                      <input type="number" min={-120} max={120} step={5} value={project.schedule.sunOffsetMinutes} onChange={e => updateSchedule({ sunOffsetMinutes: parseInt(e.target.value) || 0 })} className="w-16 bg-black/50 border border-white/10 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent/50" />
+                      MIN
+                    </div>
+                    {todaySun && <div className="text-gray-600">TODAY: SUNRISE {new Date(todaySun.start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} // SUNSET {new Date(todaySun.end).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</div>}
+                    {locationError && <div className="text-red-400">{locationError}</div>}
+                  </div>
+                )}
+                <div className="grid grid-cols-7 gap-1">
+                  {WEEKDAYS.map((label, day) => {
+                    const on = project.schedule.activeDays.includes(day);
+                    return (
+                      <button 
+                        key={day} 
+                        onClick={() => updateSchedule({ activeDays: on ? project.schedule.activeDays.filter(d => d !== day) : [...project.schedule.activeDays, day].sort() })} 
+                        className={`py-1 text-[10px] rounded font-mono font-bold border transition-all ${on ? 'bg-cyber-accent/20 text-cyber-accent border-cyber-accent/40' : 'border-white/5 text-gray-600 hover:text-white'}`}
+                      >
+                        {label}
+                      </button>
+                    );
+                  })}
+                </div>
+                <div className="flex items-center justify-between p-3.5 bg-black/40 rounded border border-white/5 transition-colors hover:border-white/10 group">
+                  <span className="text-[11px] font-bold text-gray-300">Catch Up Missed Captures</span>
+                  <button 
+                    onClick={() => updateSchedule({ catchUp: !project.schedule.catchUp })} 
+                    className={`w-9 h-5 rounded-full relative transition-all duration-300 ${project.schedule.catchUp ? 'bg-cyber-accent shadow-[0_0_12px_rgba(132,204,22,0.4)]' : 'bg-gray-700'}`}
+                  >
+                    <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${project.schedule.catchUp ? 'right-1' : 'left-1'}`}></div>
+                  </button>
+                </div>
+                <div className="flex items-center justify-between p-3.5 bg-black/40 rounded border border-white/5 transition-colors hover:border-white/10 group">
+                  <span className="text-[11px] font-bold text-gray-300">Keep Screen Awake</span>
+                  <button 
+                    onClick={() => setSettings({...settings, wakeLockActive: !settings.wakeLockActive})} 
+                    className={`w-9 h-5 rounded-full relative transition-all duration-300 ${settings.wakeLockActive ? 'bg-cyber-accent shadow-[0_0_12px_rgba(132,204,22,0.4)]' : 'bg-gray-700'}`}
+                  >
+                    <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${settings.wakeLockActive ? 'right-1' : 'left-1'}`}></div>
+                  </button>
+                </div>
+                <p className="text-[9px] font-mono text-gray-600">
+                  {active ? (nextCapture !== null ? `NEXT CAPTURE ${formatClock(nextCapture)}` : 'NO CAPTURE WINDOW IN THE NEXT WEEK') : 'SCHEDULER IDLE'}
+                </p>
+              </section>
+
               {/* Min Confidence Section */}
               <section className="space-y-4">
                 <div className="flex justify-between items-center text-[10px] font-mono uppercase tracking-[0.1em]">
                   <span className="text-gray-500 flex items-center gap-2 font-bold"><Activity size={12}/> Min. Confidence</span>
-                  <span className="text-cyber-accent font-bold">{settings.minConfidenceThreshold}%</span>
+                  <span className="text-cyber-accent font-bold">{plantSettings.minConfidenceThreshold}%</span>
                 </div>
                 <div className="relative py-2">
                   <input 
                     type="range" 
                     min="1" max="100" step="1" 
-                    value={settings.minConfidenceThreshold} 
-                    onChange={e => setSettings({...settings, minConfidenceThreshold: parseInt(e.target.value)})} 
+                    value={plantSettings.minConfidenceThreshold} 
+                    onChange={e => updatePlantSettings({ minConfidenceThreshold: parseInt(e.target.value) })} 
                     className="w-full h-1 bg-[#1a2333] rounded-lg appearance-none cursor-pointer accent-cyber-accent"
                   />
                 </div>
@@ -413,18 +1345,88 @@ const App: React.FC = () => {
                 </div>
               </section>
 
+              {/* Frame Quality Section */}
+              <section className="space-y-3">
+                <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest flex items-center gap-2 font-bold"><ShieldCheck size={12}/> Frame Quality</label>
+                {([
+                  { label: 'Exposure', policy: 'exposurePolicy', detail: `${plantSettings.quality.minBrightness}-${plantSettings.quality.maxBrightness}% BRIGHTNESS` },
+                  { label: 'Sharpness', policy: 'blurPolicy', detail: `MIN ${plantSettings.quality.minSharpness} VARIANCE` },
+                  { label: 'Duplicates', policy: 'duplicatePolicy', detail: `>= ${plantSettings.quality.maxSimilarity}% SIMILAR` }
+                ] as const).map(check => (
+                  <div key={check.policy} className="flex items-center justify-between gap-2 p-2.5 bg-black/40 rounded border border-white/5">
+                    <div>
+                      <div className="text-[11px] font-bold text-gray-300">{check.label}</div>
+                      <div className="text-[8px] font-mono text-gray-600">{check.detail}</div>
+                    </div>
+                    <select 
+                      value={plantSettings.quality[check.policy]} 
+                      onChange={e => updateQuality({ [check.policy]: e.target.value as QualityPolicy })} 
+                      className="bg-black/50 border border-white/10 rounded px-2 py-1 text-[10px] font-mono text-gray-300 focus:outline-none focus:border-cyber-accent/50"
+                    >
+                      <option value="off">Off</option>
+                      <option value="flag">Flag</option>
+                      <option value="skip-analysis">Skip AI</option>
+                      <option value="discard">Discard</option>
+                    </select>
+                  </div>
+                ))}
+                <div className="grid grid-cols-2 gap-2 text-[9px] font-mono text-gray-500 uppercase">
+                  {([
+                    { key: 'minBrightness', label: 'Min Bright %', max: 100 },
+                    { key: 'maxBrightness', label: 'Max Bright %', max: 100 },
+                    { key: 'minSharpness', label: 'Min Sharp', max: 1000 },
+                    { key: 'maxSimilarity', label: 'Dup Similar %', max: 100 }
+                  ] as const).map(field => (
+                    <label key={field.key} className="flex items-center justify-between gap-2">
+                      {field.label}
+                      <input 
+                        type="number" 
+                        min={0} max={field.max} 
+                        value={plantSettings.quality[field.key]} 
+                        onChange={e => updateQuality({ [field.key]: Math.min(field.max, Math.max(0, parseInt(e.target.value) || 0)) })} 
+                        className="w-14 bg-black/50 border border-white/10 rounded px-2 py-1 text-white focus:outline-none focus:border-cyber-accent/50"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </section>
+
               {/* Growth Engine Section */}
               <section className="space-y-3">
                 <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest flex items-center gap-2 font-bold"><Cpu size={12}/> Growth Engine</label>
                 <div className="flex items-center justify-between p-3.5 bg-black/40 rounded border border-white/5 transition-colors hover:border-white/10 group">
                   <span className="text-[11px] font-bold text-gray-300">Auto-Analyze Snapshots</span>
                   <button 
-                    onClick={() => setSettings({...settings, autoAnalyze: !settings.autoAnalyze})} 
-                    className={`w-9 h-5 rounded-full relative transition-all duration-300 ${settings.autoAnalyze ? 'bg-cyber-accent shadow-[0_0_12px_rgba(132,204,22,0.4)]' : 'bg-gray-700'}`}
+                    onClick={() => updatePlantSettings({ autoAnalyze: !plantSettings.autoAnalyze })} 
+                    className={`w-9 h-5 rounded-full relative transition-all duration-300 ${plantSettings.autoAnalyze ? 'bg-cyber-accent shadow-[0_0_12px_rgba(132,204,22,0.4)]' : 'bg-gray-700'}`}
+                  >
+                    <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${plantSettings.autoAnalyze ? 'right-1' : 'left-1'}`}></div>
+                  </button>
+                </div>
+              </section>
+
+              {/* Stabilization Section */}
+              <section className="space-y-3">
+                <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest flex items-center gap-2 font-bold"><Crosshair size={12}/> Stabilization</label>
+                <div className="flex items-center justify-between p-3.5 bg-black/40 rounded border border-white/5 transition-colors hover:border-white/10 group">
+                  <span className="text-[11px] font-bold text-gray-300">Render Aligned Frames</span>
+                  <button 
+                    onClick={() => updatePlantSettings({ stabilize: !plantSettings.stabilize })} 
+                    className={`w-9 h-5 rounded-full relative transition-all duration-300 ${plantSettings.stabilize ? 'bg-cyber-accent shadow-[0_0_12px_rgba(132,204,22,0.4)]' : 'bg-gray-700'}`}
                   >
-                    <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${settings.autoAnalyze ? 'right-1' : 'left-1'}`}></div>
+                    <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${plantSettings.stabilize ? 'right-1' : 'left-1'}`}></div>
                   </button>
                 </div>
+                <button 
+                  onClick={() => alignArchive(selectedImage || images[0])} 
+                  disabled={images.length === 0 || alignProgress !== null}
+                  className="w-full flex items-center justify-center gap-2 py-2 border border-cyber-accent/40 text-cyber-accent rounded text-[10px] font-mono font-bold uppercase tracking-widest hover:bg-cyber-accent hover:text-black transition-all disabled:opacity-30"
+                >
+                  {alignProgress !== null ? <><Cpu size={10} className="animate-spin"/> Aligning {Math.round(alignProgress * 100)}%</> : <><Crosshair size={10}/> Align to {selectedImage ? 'Selected' : 'First'} Frame</>}
+                </button>
+                <p className="text-[9px] font-mono text-gray-600">
+                  {images.filter(img => img.alignment).length}/{images.length} ALIGNED{project.alignmentReferenceId ? ` // REF ID-${project.alignmentReferenceId.slice(-4)}` : ''}
+                </p>
               </section>
 
               {/* Optics Control Section */}
@@ -448,8 +1450,8 @@ const App: React.FC = () => {
                   {(['low', 'med', 'high'] as const).map(r => (
                     <button 
                       key={r} 
-                      onClick={() => setSettings({...settings, resolution: r})} 
-                      className={`py-1.5 text-[9px] rounded uppercase font-bold border transition-all ${settings.resolution === r ? 'bg-cyber-success text-black border-transparent shadow-[0_0_12px_rgba(34,211,238,0.3)]' : 'border-white/5 text-gray-500 hover:text-white'}`}
+                      onClick={() => updatePlantSettings({ resolution: r })} 
+                      className={`py-1.5 text-[9px] rounded uppercase font-bold border transition-all ${plantSettings.resolution === r ? 'bg-cyber-success text-black border-transparent shadow-[0_0_12px_rgba(34,211,238,0.3)]' : 'border-white/5 text-gray-500 hover:text-white'}`}
                     >
                       {r}
                     </button>
@@ -493,12 +1495,17 @@ const App: React.FC = () => {
                 <div className="w-2.5 h-2.5 rounded-full bg-cyber-accent animate-ping absolute"></div>
                 <div className="w-2.5 h-2.5 rounded-full bg-cyber-accent relative"></div>
              </div>
-             <span className="text-[10px] font-mono font-bold tracking-[0.2em] text-cyber-accent">SYSTEM ACTIVE // MONITORING CYCLE {settings.intervalHours}H</span>
+             <span className="text-[10px] font-mono font-bold tracking-[0.2em] text-cyber-accent">SYSTEM ACTIVE // {projects.length > 1 ? `${projects.length} FEEDS // ` : ''}MONITORING CYCLE {project.intervalHours}H // {nextCapture !== null ? `NEXT ${formatClock(nextCapture)}` : 'NO CAPTURE WINDOW'}</span>
           </div>
         </div>
       )}
 
-      {liveMode && <LiveAudio onClose={() => setLiveMode(false)} onCapture={handleManualCapture} onTranscript={(t, u) => setChatMessages(p => [...p, {id: Date.now().toString(), role: u ? 'user' : 'model', text: t, timestamp: Date.now()}])} />}
+      {compareIds && <CompareView images={images} initialIds={compareIds} minConfidenceThreshold={plantSettings.minConfidenceThreshold} stabilize={plantSettings.stabilize} onClose={() => setCompareIds(null)} />}
+      {exportFrames && <ExportPanel images={exportFrames} settings={plantSettings} onClose={() => setExportFrames(null)} />}
+
+      {showReports && <ReportPanel images={images} projectId={project.id} minConfidenceThreshold={plantSettings.minConfidenceThreshold} careEvents={projectCare} onClose={() => setShowReports(false)} onReportGenerated={(report) => emitWebhook('report.generated', report.projectId, () => ({ report }))} />}
+
+      {liveMode && <LiveAudio onClose={() => setLiveMode(false)} onCapture={handleManualCapture} plantContext={buildPlantContext(project)} onTranscript={(t, u) => setChatMessages(p => [...p, {id: Date.now().toString(), role: u ? 'user' : 'model', text: t, timestamp: Date.now(), projectId: project.id}])} />}
     </div>
   );
 };
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Alert, AlertRule, AlertTrigger, HealthStatus } from '../types';
+import { ALERT_TRIGGER_LABELS, createAlertRule, describeRule, notificationsSupported } from '../services/alertService';
+import { projectIdOf } from '../services/projectService';
+import { Bell, BellRing, Check, Plus, Settings2, Trash2, Volume2 } from 'lucide-react';
+
+interface AlertsPanelProps {
+  alerts: Alert[];
+  projectNames: Record<string, string>;
+  rules: AlertRule[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  onOpen: (alert: Alert) => void;
+  onAcknowledge: (ids: string[]) => void;
+  onClear: () => void;
+}
+
+const MAX_ALERT_ROWS = 50;
+const STATUSES: HealthStatus[] = ['STRESSED', 'CRITICAL'];
+
+const inputClass = "bg-black/50 border border-white/10 rounded px-2 py-1 text-[10px] text-white focus:outline-none focus:border-cyber-accent/50";
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, projectNames, rules, onRulesChange, onOpen, onAcknowledge, onClear }) => {
+  const [showRules, setShowRules] = useState(false);
+  const [permission, setPermission] = useState<string>(notificationsSupported() ? Notification.permission : 'unsupported');
+  const unread = alerts.filter(a => !a.acknowledged);
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) =>
+    onRulesChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const requestPermission = async () => setPermission(await Notification.requestPermission());
+
+  const renderParams = (rule: AlertRule) => {
+    switch (rule.trigger) {
+      case 'health-change': return STATUSES.map(s => (
+        <label key={s} className="flex items-center gap-1 text-[9px] font-mono text-gray-400">
+          <input
+            type="checkbox"
+            checked={(rule.statuses || []).includes(s)}
+            onChange={(e) => updateRule(rule.id, { statuses: e.target.checked ? [...(rule.statuses || []), s] : (rule.statuses || []).filter(x => x !== s) })}
+            className="accent-cyber-accent"
+          /> {s}
+        </label>
+      ));
+      case 'event-tag': return (
+        <input
+          type="text"
+          value={(rule.tags || []).join(', ')}
+          onChange={(e) => updateRule(rule.id, { tags: e.target.value.split(',').map(t => t.trim()) })}
+          placeholder="pest, mold"
+          className={`${inputClass} flex-1`}
+        />
+      );
+      case 'consecutive-stressed': return (
+        <input type="number" min={1} value={rule.count ?? 3} onChange={(e) => updateRule(rule.id, { count: Math.max(1, parseInt(e.target.value) || 1) })} className={`${inputClass} w-14`} title="Frames in a row" />
+      );
+      default: return null;
+    }
+  };
+
+  return (
+    <div className="bg-cyber-800/20 p-5 rounded-xl border border-white/5 backdrop-blur-sm space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-3 uppercase tracking-[0.2em]">
+          {unread.length > 0 ? <BellRing size={12} className="text-red-400 animate-pulse"/> : <Bell size={12} className="text-cyber-accent"/>} Alerts
+          {unread.length > 0 && <span className="text-red-400 bg-red-500/10 px-2 py-0.5 rounded">{unread.length} NEW</span>}
+        </h3>
+        <div className="flex items-center gap-4">
+          {permission === 'default' && (
+            <button onClick={requestPermission} className="text-[9px] text-gray-500 hover:text-cyber-accent flex items-center gap-1 uppercase tracking-widest transition-colors">
+              <Bell size={10}/> Enable Notifications
+            </button>
+          )}
+          <button
+            onClick={() => onAcknowledge(unread.map(a => a.id))}
+            disabled={unread.length === 0}
+            className="text-[9px] text-gray-500 hover:text-cyber-accent flex items-center gap-1 uppercase tracking-widest transition-colors disabled:opacity-30"
+          >
+            <Check size={10}/> Ack All
+          </button>
+          <button
+            onClick={() => setShowRules(!showRules)}
+            className={`text-[9px] flex items-center gap-1 uppercase tracking-widest transition-colors ${showRules ? 'text-cyber-accent' : 'text-gray-500 hover:text-cyber-accent'}`}
+          >
+            <Settings2 size={10}/> Rules
+          </button>
+          <button
+            onClick={() => { if (confirm("Clear the alert feed?")) onClear(); }}
+            disabled={alerts.length === 0}
+            className="text-[9px] text-gray-500 hover:text-red-500 flex items-center gap-1 uppercase tracking-widest transition-colors disabled:opacity-30"
+          >
+            <Trash2 size={10}/> Clear
+          </button>
+        </div>
+      </div>
+
+      {showRules && (
+        <div className="space-y-2 p-3 bg-black/30 rounded border border-white/5">
+          {permission === 'denied' && <p className="text-[9px] font-mono text-yellow-400">Notifications are blocked in the browser; alerts still appear here.</p>}
+          {rules.map(rule => (
+            <div key={rule.id} className="flex flex-wrap items-center gap-3 text-[10px] font-mono">
+              <button
+                onClick={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                className={`w-9 h-5 rounded-full relative transition-all duration-300 shrink-0 ${rule.enabled ? 'bg-cyber-accent shadow-[0_0_12px_rgba(132,204,22,0.4)]' : 'bg-gray-700'}`}
+              >
+                <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${rule.enabled ? 'right-1' : 'left-1'}`}></div>
+              </button>
+              <span className="w-28 shrink-0 text-gray-300 uppercase" title={describeRule(rule)}>{ALERT_TRIGGER_LABELS[rule.trigger]}</span>
+              {renderParams(rule)}
+              <label className="flex items-center gap-1 text-[9px] text-gray-500" title="Minutes before this rule can fire again for the same project">
+                COOLDOWN
+                <input type="number" min={0} value={rule.cooldownMinutes} onChange={(e) => updateRule(rule.id, { cooldownMinutes: Math.max(0, parseInt(e.target.value) || 0) })} className={`${inputClass} w-14`} />
+              </label>
+              <button
+                onClick={() => updateRule(rule.id, { notify: !rule.notify })}
+                className={`transition-colors ${rule.notify ? 'text-cyber-accent' : 'text-gray-600 hover:text-gray-400'}`}
+                title="Browser notification"
+              >
+                <Bell size={12}/>
+              </button>
+              <button
+                onClick={() => updateRule(rule.id, { speak: !rule.speak })}
+                className={`transition-colors ${rule.speak ? 'text-cyber-accent' : 'text-gray-600 hover:text-gray-400'}`}
+                title="Spoken warning"
+              >
+                <Volume2 size={12}/>
+              </button>
+              <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} className="ml-auto text-gray-600 hover:text-red-500 transition-colors" title="Delete rule">
+                <Trash2 size={10}/>
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2 pt-1">
+            <Plus size={10} className="text-gray-500"/>
+            <select
+              value=""
+              onChange={(e) => { if (e.target.value) onRulesChange([...rules, createAlertRule(e.target.value as AlertTrigger)]); }}
+              className={inputClass}
+            >
+              <option value="">Add rule...</option>
+              {(Object.keys(ALERT_TRIGGER_LABELS) as AlertTrigger[]).map(t => <option key={t} value={t}>{ALERT_TRIGGER_LABELS[t]}</option>)}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {alerts.length === 0 ? (
+        <p className="text-[10px] font-mono text-gray-600">No alerts fired yet.</p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+          {[...alerts].reverse().slice(0, MAX_ALERT_ROWS).map(alert => (
+            <div
+              key={alert.id}
+              onClick={() => onOpen(alert)}
+              className={`group flex items-center gap-3 text-[10px] font-mono cursor-pointer hover:bg-white/5 rounded px-1 ${alert.acknowledged ? 'opacity-50' : ''}`}
+            >
+              <span className="text-gray-600 shrink-0">{new Date(alert.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+              <span className={`shrink-0 uppercase ${alert.severity === 'critical' ? 'text-red-400' : 'text-yellow-400'}`}>{ALERT_TRIGGER_LABELS[alert.trigger]}</span>
+              {Object.keys(projectNames).length > 1 && <span className="text-cyber-accent shrink-0">{projectNames[projectIdOf(alert)] || '-'}</span>}
+              <span className="text-gray-300 truncate" title={alert.message}>{alert.message}</span>
+              {!alert.acknowledged && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); onAcknowledge([alert.id]); }}
+                  className="ml-auto text-gray-600 hover:text-cyber-accent opacity-0 group-hover:opacity-100 transition-all"
+                  title="Acknowledge"
+                >
+                  <Check size={10}/>
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertsPanel;
@@ -0,0 +1,47 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { FrameAlignment } from '../types';
+import { alignmentCssTransform } from '../services/alignmentService';
+
+interface AlignedImageProps {
+  src: string;
+  alignment?: FrameAlignment;
+  alt: string;
+  className?: string;
+  style?: React.CSSProperties;
+  draggable?: boolean;
+}
+
+// object-contain image that applies a stored alignment relative to the visible content, not the element box.
+const AlignedImage: React.FC<AlignedImageProps> = ({ src, alignment, alt, className = '', style, draggable }) => {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const [content, setContent] = useState({ width: 0, height: 0 });
+
+  const measure = () => {
+    const img = imgRef.current;
+    if (!img || !img.naturalWidth) return;
+    const scale = Math.min(img.clientWidth / img.naturalWidth, img.clientHeight / img.naturalHeight);
+    setContent({ width: img.naturalWidth * scale, height: img.naturalHeight * scale });
+  };
+
+  useEffect(() => {
+    const img = imgRef.current;
+    if (!img) return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(img);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <img
+      ref={imgRef}
+      src={src}
+      alt={alt}
+      draggable={draggable}
+      onLoad={measure}
+      className={`object-contain ${className}`}
+      style={{ ...style, transform: alignmentCssTransform(alignment, content.width, content.height) }}
+    />
+  );
+};
+
+export default AlignedImage;
@@ -1,5 +1,7 @@
 import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef, useCallback } from 'react';
-import { ZoomIn, ZoomOut, RefreshCw, Maximize, Move, Zap, ZapOff, AlertCircle } from 'lucide-react';
+import { ZoomIn, ZoomOut, RefreshCw, Maximize, Move, Zap, ZapOff, AlertCircle, Crop, X, Scan, SlidersHorizontal, Lock, Unlock } from 'lucide-react';
+import { CameraControls, FlashMode, RegionOfInterest } from '../types';
+import { CameraCapabilities, ControlGroup, ControlRange, DEFAULT_CAMERA_CONTROLS, RangeControl, readCapabilities, readSettings, applyCameraControls, lockCurrentSettings, meterBrightness, waitForExposure, hasVideoFrame, AUTO_FLASH_BRIGHTNESS } from '../services/cameraControlService';
 
 interface CameraFeedProps {
   active: boolean;
@@ -8,13 +10,33 @@ interface CameraFeedProps {
   onResolutionChange?: (res: 'low' | 'med' | 'high') => void;
   onCapture?: (dataUrl: string) => void;
   className?: string;
+  regions?: RegionOfInterest[];
+  activeRegionId?: string;
+  onRegionsChange?: (regions: RegionOfInterest[]) => void;
+  onActiveRegionChange?: (id: string | undefined) => void;
+  controls?: CameraControls;
+  onControlsChange?: (controls: CameraControls) => void;
+  flashMode?: FlashMode;
+  onFlashModeChange?: (mode: FlashMode) => void;
+  deviceId?: string;     // Binds the feed to one video input; facingMode is used when unset
+  label?: string;        // HUD name of the feed
+  compact?: boolean;     // Thumbnail feed: HUD name only, no controls
+  onStreamStart?: () => void;
+  onStreamError?: (message: string) => void; // Start failures and streams lost mid-session
+}
+
+const MIN_REGION_SIZE = 0.03; // Normalised; smaller drags are treated as clicks
+
+export interface CapturedFrame {
+  dataUrl: string;
+  flash: boolean; // Torch was lit for this capture, either forced on or fired by auto mode
 }
 
 export interface CameraHandle {
-  capture: () => string | null;
+  capture: () => Promise<CapturedFrame | null>;
 }
 
-const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ active, facingMode, resolution, onResolutionChange, onCapture, className }, ref) => {
+const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ active, facingMode, resolution, onResolutionChange, onCapture, className, regions = [], activeRegionId, onRegionsChange, onActiveRegionChange, controls = DEFAULT_CAMERA_CONTROLS, onControlsChange, flashMode = 'off', onFlashModeChange, deviceId, label = 'CAM-01', compact = false, onStreamStart, onStreamError }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -29,23 +51,61 @@ const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ active, facingMo
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
 
   // Flash/Torch State
-  const [flashMode, setFlashMode] = useState<'off' | 'on' | 'auto'>('off');
   const [hasTorch, setHasTorch] = useState(false);
 
+  // Camera Control State
+  const [capabilities, setCapabilities] = useState<CameraCapabilities | null>(null);
+  const [showControls, setShowControls] = useState(false);
+
+  // Region of Interest State
+  const [editRegions, setEditRegions] = useState(false);
+  const [draft, setDraft] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+  const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
+  const activeRegion = regions.find(r => r.id === activeRegionId);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewSize({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const currentTrack = () => (videoRef.current?.srcObject as MediaStream | null)?.getVideoTracks()[0];
+
   useImperativeHandle(ref, () => ({
-    capture: () => {
-      if (videoRef.current && canvasRef.current) {
+    capture: async () => {
+      if (videoRef.current && canvasRef.current && hasVideoFrame(videoRef.current)) {
         const video = videoRef.current;
         const canvas = canvasRef.current;
         const context = canvas.getContext('2d');
         if (context) {
-          canvas.width = video.videoWidth;
-          canvas.height = video.videoHeight;
-          context.drawImage(video, 0, 0, canvas.width, canvas.height);
-          // Return high quality JPEG
-          const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
-          if (onCapture) onCapture(dataUrl);
-          return dataUrl;
+          // Auto flash meters the area that will actually be stored and lights the torch for this capture only.
+          const track = currentTrack();
+          const fireFlash = flashMode === 'auto' && hasTorch && !!track && !!capabilities && meterBrightness(video, activeRegion) < AUTO_FLASH_BRIGHTNESS;
+          if (fireFlash) {
+            try {
+              await applyCameraControls(track!, controls, capabilities!, true);
+              await waitForExposure(() => meterBrightness(video, activeRegion));
+            } catch (e) {
+              console.warn("Auto flash error", e);
+            }
+          }
+          try {
+            // The active region is cropped from the full-resolution frame, so zooming in gains real detail.
+            const sx = activeRegion ? Math.round(activeRegion.x * video.videoWidth) : 0;
+            const sy = activeRegion ? Math.round(activeRegion.y * video.videoHeight) : 0;
+            canvas.width = activeRegion ? Math.max(1, Math.round(activeRegion.width * video.videoWidth)) : video.videoWidth;
+            canvas.height = activeRegion ? Math.max(1, Math.round(activeRegion.height * video.videoHeight)) : video.videoHeight;
+            context.drawImage(video, sx, sy, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+            // Return high quality JPEG
+            const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
+            if (onCapture) onCapture(dataUrl);
+            return { dataUrl, flash: fireFlash || (hasTorch && flashMode === 'on') };
+          } finally {
+            if (fireFlash) await applyCameraControls(track!, controls, capabilities!, false).catch(e => console.warn("Auto flash error", e));
+          }
         }
       }
       return null;
@@ -68,19 +128,27 @@ const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ active, facingMo
 
       const stream = await navigator.mediaDevices.getUserMedia({ 
         video: { 
-          facingMode: facingMode,
+          ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: facingMode }),
           ...resConstraints
         }, 
         audio: false 
       });
 
       const track = stream.getVideoTracks()[0];
-      const capabilities = track.getCapabilities ? (track.getCapabilities() as any) : {};
-      setHasTorch(!!capabilities.torch);
+      // stop() does not fire 'ended', so this only catches unplugged or revoked cameras.
+      track.addEventListener('ended', () => {
+        const msg = "Camera stream ended unexpectedly.";
+        setError({ message: msg, type: 'hardware' });
+        onStreamError?.(msg);
+      });
+      const caps = readCapabilities(track);
+      setHasTorch(caps.torch);
+      setCapabilities(caps);
 
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
       }
+      onStreamStart?.();
     } catch (err: any) {
       console.error("Camera access error:", err);
       let msg = "Camera Optics Malfunction. Check Permissions.";
@@ -89,16 +157,20 @@ const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ active, facingMo
       if (err.name === 'NotAllowedError' || err.name === 'PermissionDeniedError') {
         msg = "Camera access denied by user. Check browser settings.";
         type = "permission";
+      } else if (err.name === 'OverconstrainedError') {
+        msg = "The assigned camera is no longer connected.";
+        type = "hardware";
       } else if (err.name === 'NotFoundError' || err.name === 'DevicesNotFoundError') {
         msg = "No compatible optics found on this hardware.";
         type = "hardware";
       }
       
       setError({ message: msg, type });
+      onStreamError?.(msg);
     } finally {
       setIsInitializing(false);
     }
-  }, [facingMode, resolution]);
+  }, [facingMode, resolution, deviceId]);
 
   useEffect(() => {
     if (active) {
@@ -111,27 +183,39 @@ const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ active, facingMo
     }
   }, [active, startCamera]);
 
+  // Every camera start yields fresh capabilities, so the saved controls are re-applied after each restart.
   useEffect(() => {
-    const applyFlash = async () => {
-      if (videoRef.current && videoRef.current.srcObject && hasTorch) {
-        const stream = videoRef.current.srcObject as MediaStream;
-        const track = stream.getVideoTracks()[0];
-        try {
-          // 'auto' mode isn't natively supported by standard applyConstraints for torch in many browsers,
-          // so we simulate it or just use 'on/off' toggle. Here we handle 'on'/'off'.
-          await track.applyConstraints({
-            advanced: [{ torch: flashMode === 'on' }]
-          } as any);
-        } catch (e) {
-          console.warn("Flash application error", e);
-        }
+    const applyControls = async () => {
+      const track = currentTrack();
+      if (!track || !capabilities) return;
+      try {
+        // The torch has no native auto mode, so 'auto' keeps it off here and capture() lights it per frame.
+        await applyCameraControls(track, controls, capabilities, flashMode === 'on');
+      } catch (e) {
+        console.warn("Camera control application error", e);
       }
     };
-    applyFlash();
-  }, [flashMode, hasTorch]);
+    applyControls();
+  }, [controls, capabilities, flashMode]);
+
+  const lockGroup = (group: ControlGroup, locked: boolean) => {
+    const track = currentTrack();
+    if (!track || !capabilities) return;
+    if (locked) {
+      onControlsChange?.(lockCurrentSettings(track, capabilities, controls, [group]));
+    } else {
+      const mode = { exposure: 'exposureMode', focus: 'focusMode', whiteBalance: 'whiteBalanceMode' }[group];
+      onControlsChange?.({ ...controls, [mode]: 'continuous' });
+    }
+  };
+
+  const hasControls = !!capabilities && (
+    [capabilities.exposureModes, capabilities.focusModes, capabilities.whiteBalanceModes].some(m => m.includes('manual')) ||
+    !!capabilities.exposureCompensation || !!capabilities.zoom
+  );
 
   const handleWheel = (e: React.WheelEvent) => {
-    if (!active) return;
+    if (!active || compact) return;
     const delta = -e.deltaY * 0.001;
     setZoom(z => Math.min(Math.max(1, z + delta), 5));
   };
@@ -154,6 +238,105 @@ const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ active, facingMo
 
   const handleMouseUp = () => setIsDragging(false);
 
+  // object-cover scales the video to fill the view and centres it; regions are normalised to the video.
+  const coverLayout = () => {
+    const scale = Math.max(viewSize.width / videoSize.width, viewSize.height / videoSize.height);
+    return {
+      w: videoSize.width * scale,
+      h: videoSize.height * scale,
+      offsetX: (viewSize.width - videoSize.width * scale) / 2,
+      offsetY: (viewSize.height - videoSize.height * scale) / 2
+    };
+  };
+
+  const regionStyle = (r: { x: number; y: number; width: number; height: number }) => {
+    const { w, h, offsetX, offsetY } = coverLayout();
+    return {
+      left: `${(offsetX + r.x * w) / viewSize.width * 100}%`,
+      top: `${(offsetY + r.y * h) / viewSize.height * 100}%`,
+      width: `${r.width * w / viewSize.width * 100}%`,
+      height: `${r.height * h / viewSize.height * 100}%`
+    };
+  };
+
+  // Maps an unzoomed view coordinate to a clamped normalised video coordinate.
+  const toVideoPoint = (lx: number, ly: number) => {
+    const { w, h, offsetX, offsetY } = coverLayout();
+    return {
+      x: Math.min(1, Math.max(0, (lx - offsetX) / w)),
+      y: Math.min(1, Math.max(0, (ly - offsetY) / h))
+    };
+  };
+
+  // The overlay sits inside the zoomed layer, so its client rect already reflects zoom and pan.
+  const overlayPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return toVideoPoint((e.clientX - rect.left) / rect.width * viewSize.width, (e.clientY - rect.top) / rect.height * viewSize.height);
+  };
+
+  const addRegion = (x: number, y: number, width: number, height: number, prefix: string) => {
+    const region: RegionOfInterest = { id: Date.now().toString(), label: `${prefix}-${regions.length + 1}`, x, y, width, height };
+    onRegionsChange?.([...regions, region]);
+    onActiveRegionChange?.(region.id);
+  };
+
+  const handleRegionPointerUp = () => {
+    if (draft) {
+      const x = Math.min(draft.x0, draft.x1), y = Math.min(draft.y0, draft.y1);
+      const width = Math.abs(draft.x1 - draft.x0), height = Math.abs(draft.y1 - draft.y0);
+      if (width >= MIN_REGION_SIZE && height >= MIN_REGION_SIZE) addRegion(x, y, width, height, 'ROI');
+    }
+    setDraft(null);
+  };
+
+  // Turns the current CSS zoom into a real crop: the visible part of the view becomes a region.
+  const saveViewAsRegion = () => {
+    const cx = viewSize.width / 2, cy = viewSize.height / 2;
+    const topLeft = toVideoPoint(cx + (0 - cx - pan.x) / zoom, cy + (0 - cy - pan.y) / zoom);
+    const bottomRight = toVideoPoint(cx + (viewSize.width - cx - pan.x) / zoom, cy + (viewSize.height - cy - pan.y) / zoom);
+    addRegion(topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y, 'VIEW');
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+  };
+
+  const canShowRegions = videoSize.width > 0 && viewSize.width > 0;
+
+  const renderSlider = (label: string, key: RangeControl, range: ControlRange, unit = '') => {
+    const track = currentTrack();
+    const value = controls[key] ?? (track ? readSettings(track)[key] : undefined) ?? range.min;
+    return (
+      <label key={key} className="block space-y-1">
+        <div className="flex justify-between text-[9px] font-mono uppercase text-gray-500">
+          <span>{label}</span>
+          <span className="text-white">{Math.round(value * 100) / 100}{unit}</span>
+        </div>
+        <input
+          type="range"
+          min={range.min} max={range.max} step={range.step}
+          value={value}
+          onChange={e => onControlsChange?.({ ...controls, [key]: parseFloat(e.target.value) })}
+          className="w-full accent-cyber-accent"
+        />
+      </label>
+    );
+  };
+
+  const renderGroup = (group: ControlGroup, label: string, modes: string[], locked: boolean, sliders: React.ReactNode) => modes.includes('manual') && (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-[9px] font-mono font-bold text-gray-400 uppercase tracking-widest">{label}</span>
+        <button
+          onClick={() => lockGroup(group, !locked)}
+          className={`flex items-center gap-1 px-2 py-0.5 rounded text-[8px] font-bold font-mono transition-all ${locked ? 'bg-cyber-accent text-black' : 'bg-white/5 text-gray-400 hover:text-white'}`}
+          title={locked ? 'Return to automatic' : 'Lock at the current automatic value'}
+        >
+          {locked ? <Lock size={10}/> : <Unlock size={10}/>} {locked ? 'LOCKED' : 'AUTO'}
+        </button>
+      </div>
+      {locked && sliders}
+    </div>
+  );
+
   return (
     <div 
       ref={containerRef}
@@ -194,45 +377,123 @@ const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ active, facingMo
               autoPlay 
               playsInline 
               muted 
+              onLoadedMetadata={e => setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
               className="w-full h-full object-cover select-none pointer-events-none"
             />
+
+             {/* Regions of Interest */}
+             {canShowRegions && (
+               <div
+                 className={`absolute inset-0 z-10 ${editRegions ? 'cursor-crosshair' : 'pointer-events-none'}`}
+                 onMouseDown={e => { if (editRegions) e.stopPropagation(); }}
+                 onPointerDown={e => { if (!editRegions) return; const p = overlayPoint(e); e.currentTarget.setPointerCapture(e.pointerId); setDraft({ x0: p.x, y0: p.y, x1: p.x, y1: p.y }); }}
+                 onPointerMove={e => { if (draft) { const p = overlayPoint(e); setDraft({ ...draft, x1: p.x, y1: p.y }); } }}
+                 onPointerUp={handleRegionPointerUp}
+               >
+                 {regions.filter(r => editRegions || r.id === activeRegionId).map(r => (
+                   <div
+                     key={r.id}
+                     style={regionStyle(r)}
+                     className={`absolute border-2 border-dashed ${r.id === activeRegionId ? 'border-cyber-accent bg-cyber-accent/5' : 'border-white/40'}`}
+                   >
+                     <div className="absolute -top-5 left-0 flex items-center gap-1 text-[9px] font-mono font-bold">
+                       <button
+                         onPointerDown={e => e.stopPropagation()}
+                         onClick={() => onActiveRegionChange?.(r.id)}
+                         className={`px-1.5 rounded ${r.id === activeRegionId ? 'bg-cyber-accent text-black' : 'bg-black/70 text-white'}`}
+                       >
+                         {r.label}
+                       </button>
+                       {editRegions && (
+                         <button
+                           onPointerDown={e => e.stopPropagation()}
+                           onClick={() => { onRegionsChange?.(regions.filter(x => x.id !== r.id)); if (r.id === activeRegionId) onActiveRegionChange?.(undefined); }}
+                           className="p-0.5 rounded bg-black/70 text-red-400 hover:text-red-300"
+                         >
+                           <X size={10}/>
+                         </button>
+                       )}
+                     </div>
+                   </div>
+                 ))}
+                 {draft && (
+                   <div
+                     style={regionStyle({ x: Math.min(draft.x0, draft.x1), y: Math.min(draft.y0, draft.y1), width: Math.abs(draft.x1 - draft.x0), height: Math.abs(draft.y1 - draft.y0) })}
+                     className="absolute border-2 border-cyber-accent bg-cyber-accent/10"
+                   />
+                 )}
+               </div>
+             )}
           </div>
           
           {/* Scanline Overlay */}
           <div className="absolute inset-0 pointer-events-none opacity-10 bg-[linear-gradient(rgba(0,242,255,0.1)_1px,transparent_1px),linear-gradient(90deg,rgba(0,242,255,0.1)_1px,transparent_1px)] bg-[size:30px_30px]"></div>
           
           {/* Feed HUD */}
-          <div className="absolute top-4 left-4 flex flex-col gap-2 z-20 pointer-events-none">
+          <div className={`absolute flex flex-col gap-2 z-20 pointer-events-none ${compact ? 'top-2 left-2' : 'top-4 left-4'}`}>
             <div className="flex items-center gap-2 bg-black/60 px-3 py-1 rounded border border-cyber-accent/30 backdrop-blur-md">
               <span className="text-[10px] font-mono text-cyber-accent font-bold uppercase tracking-widest">
-                CAM-01 // {facingMode.toUpperCase()}
+                {label}{compact ? '' : ` // ${deviceId ? 'DEVICE' : facingMode.toUpperCase()}`}{activeRegion ? ` // ${activeRegion.label}` : ''}
               </span>
             </div>
-            <div className="flex items-center gap-2 bg-black/40 px-3 py-1 rounded border border-white/5 text-[10px] font-mono text-white/40">
-              {new Date().toLocaleTimeString()}
-            </div>
+            {!compact && (
+              <div className="flex items-center gap-2 bg-black/40 px-3 py-1 rounded border border-white/5 text-[10px] font-mono text-white/40">
+                {new Date().toLocaleTimeString()}
+              </div>
+            )}
           </div>
 
           {/* Controls Bar */}
-          <div className="absolute top-4 right-4 flex gap-2 pointer-events-auto z-20">
+          <div className={`absolute top-4 right-4 flex gap-2 pointer-events-auto z-20 ${compact ? 'hidden' : ''}`}>
+            {onRegionsChange && active && (
+              <div className="flex items-center bg-black/60 border border-white/10 rounded-lg p-0.5 backdrop-blur-md">
+                <button 
+                  onClick={() => setEditRegions(!editRegions)}
+                  className={`p-1.5 rounded transition-all ${editRegions ? 'bg-cyber-accent text-black' : 'text-gray-500 hover:text-white'}`}
+                  title={editRegions ? 'Finish Editing Regions' : 'Draw Regions of Interest'}
+                >
+                  <Crop size={14} />
+                </button>
+                <select
+                  value={activeRegionId || ''}
+                  onChange={e => onActiveRegionChange?.(e.target.value || undefined)}
+                  className="bg-transparent text-[9px] font-mono font-bold text-gray-300 uppercase focus:outline-none px-1"
+                  title="Region cropped on capture"
+                >
+                  <option value="">Full Frame</option>
+                  {regions.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                </select>
+              </div>
+            )}
+
+            {hasControls && onControlsChange && active && (
+              <button
+                onClick={() => setShowControls(!showControls)}
+                className={`p-2 rounded-lg border backdrop-blur-md transition-all ${showControls ? 'bg-cyber-accent text-black border-cyber-accent' : 'bg-black/60 border-white/10 text-gray-500 hover:text-white'}`}
+                title="Exposure, Focus & White Balance"
+              >
+                <SlidersHorizontal size={14} />
+              </button>
+            )}
+
             {hasTorch && active && (
               <div className="flex bg-black/60 border border-white/10 rounded-lg p-0.5 backdrop-blur-md">
                 <button 
-                  onClick={() => setFlashMode('off')}
+                  onClick={() => onFlashModeChange?.('off')}
                   className={`p-1.5 rounded transition-all ${flashMode === 'off' ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-white'}`}
                   title="Flash Off"
                 >
                   <ZapOff size={14} />
                 </button>
                 <button 
-                  onClick={() => setFlashMode('on')}
+                  onClick={() => onFlashModeChange?.('on')}
                   className={`p-1.5 rounded transition-all ${flashMode === 'on' ? 'bg-cyber-accent text-black shadow-[0_0_10px_rgba(132,204,22,0.5)]' : 'text-gray-500 hover:text-cyber-accent'}`}
                   title="Flash On"
                 >
                   <Zap size={14} fill={flashMode === 'on' ? 'currentColor' : 'none'} />
                 </button>
                 <button 
-                  onClick={() => setFlashMode('auto')}
+                  onClick={() => onFlashModeChange?.('auto')}
                   className={`px-2 py-0.5 rounded text-[8px] font-bold transition-all font-mono ${flashMode === 'auto' ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-white'}`}
                   title="Flash Auto"
                 >
@@ -254,8 +515,43 @@ const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ active, facingMo
             </div>
           </div>
 
+          {/* Camera Controls */}
+          {showControls && hasControls && capabilities && active && !compact && (
+            <div className="absolute top-16 right-4 w-64 max-h-[70%] overflow-y-auto custom-scrollbar bg-black/85 border border-white/10 rounded-lg p-3 space-y-4 backdrop-blur-md z-30 pointer-events-auto" onMouseDown={e => e.stopPropagation()}>
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] font-mono font-bold text-cyber-accent uppercase tracking-widest">Optics Lock</span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => { const track = currentTrack(); if (track) onControlsChange?.(lockCurrentSettings(track, capabilities, controls)); }}
+                    className="px-2 py-0.5 rounded text-[8px] font-bold font-mono bg-white/5 text-gray-300 hover:text-white"
+                    title="Lock exposure, focus and white balance at their current values"
+                  >
+                    LOCK ALL
+                  </button>
+                  <button
+                    onClick={() => onControlsChange?.(DEFAULT_CAMERA_CONTROLS)}
+                    className="px-2 py-0.5 rounded text-[8px] font-bold font-mono bg-white/5 text-gray-300 hover:text-red-400"
+                    title="Return every control to automatic"
+                  >
+                    RESET
+                  </button>
+                </div>
+              </div>
+              {renderGroup('exposure', 'Exposure', capabilities.exposureModes, controls.exposureMode === 'manual', <>
+                {capabilities.exposureTime && renderSlider('Shutter', 'exposureTime', capabilities.exposureTime)}
+                {capabilities.iso && renderSlider('ISO', 'iso', capabilities.iso)}
+              </>)}
+              {capabilities.exposureCompensation && renderSlider('Exposure Comp.', 'exposureCompensation', capabilities.exposureCompensation, ' EV')}
+              {renderGroup('focus', 'Focus', capabilities.focusModes, controls.focusMode === 'manual',
+                capabilities.focusDistance && renderSlider('Distance', 'focusDistance', capabilities.focusDistance, ' m'))}
+              {renderGroup('whiteBalance', 'White Balance', capabilities.whiteBalanceModes, controls.whiteBalanceMode === 'manual',
+                capabilities.colorTemperature && renderSlider('Temperature', 'colorTemperature', capabilities.colorTemperature, ' K'))}
+              {capabilities.zoom && renderSlider('Optical Zoom', 'zoom', capabilities.zoom, 'x')}
+            </div>
+          )}
+
           {/* Zoom Hub */}
-          {active && (
+          {active && !compact && (
             <div className="absolute bottom-6 right-6 flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300 z-20 pointer-events-auto">
                <div className="bg-black/80 border border-cyber-700 rounded-lg p-1 flex flex-col gap-1 backdrop-blur-md">
                   <button onClick={() => setZoom(z => Math.min(5, z + 0.5))} disabled={zoom >= 5} className="p-2 hover:bg-white/5 text-gray-400 hover:text-white transition-all disabled:opacity-10"><ZoomIn size={18}/></button>
@@ -265,6 +561,12 @@ const CameraFeed = forwardRef<CameraHandle, CameraFeedProps>(({ active, facingMo
                     <>
                       <div className="h-px w-full bg-white/5"></div>
                       <button onClick={() => { setZoom(1); setPan({x:0, y:0}); }} className="p-2 hover:bg-red-500/20 text-red-500 transition-all" title="Reset Optics"><Maximize size={18}/></button>
+                      {onRegionsChange && (
+                        <>
+                          <div className="h-px w-full bg-white/5"></div>
+                          <button onClick={saveViewAsRegion} className="p-2 hover:bg-cyber-accent/20 text-cyber-accent transition-all" title="Crop Captures to This View"><Scan size={18}/></button>
+                        </>
+                      )}
                     </>
                   )}
                </div>
@@ -0,0 +1,83 @@
+import React from 'react';
+import { CaptureLogEntry } from '../types';
+import { CaptureHealthSummary, isLateCapture } from '../services/captureHealthService';
+import { HeartPulse, Trash2 } from 'lucide-react';
+
+interface CaptureHealthPanelProps {
+  log: CaptureLogEntry[];
+  summary: CaptureHealthSummary;
+  onClear: () => void;
+}
+
+const MAX_LOG_ROWS = 50;
+
+const formatSpan = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours >= 24 ? `${Math.floor(hours / 24)}d ${hours % 24}h` : `${hours}h ${minutes % 60}m`;
+};
+
+const describeEntry = (entry: CaptureLogEntry) => {
+  switch (entry.kind) {
+    case 'session-start': return { text: 'Monitoring started', color: 'text-cyber-accent' };
+    case 'session-stop': return { text: 'Monitoring stopped', color: 'text-gray-400' };
+    case 'capture': return isLateCapture(entry)
+      ? { text: `Capture ${formatSpan(entry.delayMs!)} late (planned ${new Date(entry.plannedAt!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})`, color: 'text-yellow-400' }
+      : { text: 'Capture on schedule', color: 'text-gray-300' };
+    case 'rejected': return { text: `Capture discarded: ${entry.detail}`, color: 'text-orange-400' };
+    case 'gap': return { text: `Gap of ${formatSpan(entry.timestamp - (entry.gapStart ?? entry.timestamp))} // ${entry.missedSlots} missed slot${entry.missedSlots === 1 ? '' : 's'}`, color: 'text-red-400' };
+    case 'wake-lock': return { text: `Wake lock ${entry.detail}`, color: entry.detail === 'acquired' ? 'text-cyber-success' : 'text-yellow-400' };
+    case 'visibility': return { text: `Tab ${entry.detail}`, color: 'text-gray-500' };
+  }
+};
+
+const CaptureHealthPanel: React.FC<CaptureHealthPanelProps> = ({ log, summary, onClear }) => (
+  <div className="bg-cyber-800/20 p-5 rounded-xl border border-white/5 backdrop-blur-sm space-y-4">
+    <div className="flex justify-between items-center">
+      <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-3 uppercase tracking-[0.2em]">
+        <HeartPulse size={12} className="text-cyber-accent"/> Capture Health
+        {summary.wakeLock && <span className="text-white bg-white/5 px-2 py-0.5 rounded">WAKE LOCK {summary.wakeLock.toUpperCase()}</span>}
+      </h3>
+      <button
+        onClick={() => { if (confirm("Clear the capture-health log?")) onClear(); }}
+        disabled={log.length === 0}
+        className="text-[9px] text-gray-500 hover:text-red-500 flex items-center gap-1 uppercase tracking-widest transition-colors disabled:opacity-30"
+      >
+        <Trash2 size={10}/> Clear
+      </button>
+    </div>
+
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-[10px] font-mono">
+      {[
+        { label: 'Uptime', value: formatSpan(summary.uptimeMs), color: 'text-white' },
+        { label: 'Captures', value: summary.captures, color: 'text-white' },
+        { label: 'On Time', value: summary.onTimeRate === null ? '-' : `${summary.onTimeRate}%`, color: 'text-cyber-accent' },
+        { label: 'Late', value: summary.lateCaptures, color: 'text-yellow-400' },
+        { label: 'Missed Slots', value: summary.missedSlots, color: 'text-red-400' }
+      ].map(card => (
+        <div key={card.label} className="p-2 bg-black/40 rounded border border-white/5">
+          <div className="text-gray-500 uppercase">{card.label}</div>
+          <div className={`text-sm font-bold ${card.color}`}>{card.value}</div>
+        </div>
+      ))}
+    </div>
+
+    {log.length === 0 ? (
+      <p className="text-[10px] font-mono text-gray-600">No monitoring sessions logged yet.</p>
+    ) : (
+      <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+        {[...log].reverse().slice(0, MAX_LOG_ROWS).map(entry => {
+          const { text, color } = describeEntry(entry);
+          return (
+            <div key={entry.id} className="flex gap-3 text-[10px] font-mono">
+              <span className="text-gray-600 shrink-0">{new Date(entry.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+              <span className={color}>{text}</span>
+            </div>
+          );
+        })}
+      </div>
+    )}
+  </div>
+);
+
+export default CaptureHealthPanel;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { CareEvent, CareEventType } from '../types';
+import { CARE_EVENT_LABELS, CARE_EVENT_COLORS, describeCareEvent } from '../services/careService';
+import { Droplets, Plus, Trash2 } from 'lucide-react';
+
+interface CareJournalPanelProps {
+  events: CareEvent[];
+  onAdd: (entry: Omit<CareEvent, 'id' | 'projectId'>) => void;
+  onDelete: (id: string) => void;
+}
+
+const MAX_EVENT_ROWS = 30;
+const AMOUNT_TYPES: CareEventType[] = ['water', 'nutrient'];
+const PRODUCT_TYPES: CareEventType[] = ['nutrient', 'pest-treatment', 'repot'];
+
+// datetime-local works in local time without a zone suffix.
+const toLocalInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return new Date(timestamp - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const inputClass = "bg-black/50 border border-white/10 rounded px-2 py-1.5 text-[11px] text-white focus:outline-none focus:border-cyber-accent/50";
+
+const CareJournalPanel: React.FC<CareJournalPanelProps> = ({ events, onAdd, onDelete }) => {
+  const [type, setType] = useState<CareEventType>('water');
+  const [amount, setAmount] = useState('');
+  const [product, setProduct] = useState('');
+  const [notes, setNotes] = useState('');
+  const [when, setWhen] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amountMl = AMOUNT_TYPES.includes(type) && amount !== '' ? Math.max(0, Number(amount)) : undefined;
+    onAdd({
+      type,
+      timestamp: when ? new Date(when).getTime() : Date.now(),
+      amountMl: amountMl !== undefined && !isNaN(amountMl) ? amountMl : undefined,
+      product: PRODUCT_TYPES.includes(type) && product.trim() ? product.trim() : undefined,
+      notes: notes.trim() || undefined
+    });
+    setAmount('');
+    setProduct('');
+    setNotes('');
+    setWhen('');
+  };
+
+  return (
+    <div className="bg-cyber-800/20 p-5 rounded-xl border border-white/5 backdrop-blur-sm space-y-4">
+      <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-3 uppercase tracking-[0.2em]">
+        <Droplets size={12} className="text-cyber-accent"/> Care Journal
+        <span className="text-white bg-white/5 px-2 py-0.5 rounded">{events.length} ENTRIES</span>
+      </h3>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-2 md:grid-cols-6 gap-2">
+        <select value={type} onChange={(e) => setType(e.target.value as CareEventType)} className={inputClass}>
+          {(Object.keys(CARE_EVENT_LABELS) as CareEventType[]).map(t => <option key={t} value={t}>{CARE_EVENT_LABELS[t]}</option>)}
+        </select>
+        {AMOUNT_TYPES.includes(type) && (
+          <input type="number" min={0} step={10} value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="ml" className={inputClass} />
+        )}
+        {PRODUCT_TYPES.includes(type) && (
+          <input type="text" value={product} onChange={(e) => setProduct(e.target.value)} placeholder={type === 'repot' ? 'New pot / medium' : 'Product'} className={inputClass} />
+        )}
+        <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notes" className={`${inputClass} md:col-span-2`} />
+        <input type="datetime-local" value={when} max={toLocalInput(Date.now())} onChange={(e) => setWhen(e.target.value)} title="Leave empty for now" className={inputClass} />
+        <button type="submit" className="flex items-center justify-center gap-1 bg-cyber-accent/10 border border-cyber-accent/30 text-cyber-accent rounded px-2 py-1.5 text-[10px] font-mono uppercase tracking-widest hover:bg-cyber-accent/20 transition-colors">
+          <Plus size={10}/> Log
+        </button>
+      </form>
+
+      {events.length === 0 ? (
+        <p className="text-[10px] font-mono text-gray-600">No care logged yet.</p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+          {[...events].reverse().slice(0, MAX_EVENT_ROWS).map(event => (
+            <div key={event.id} className="group flex items-center gap-3 text-[10px] font-mono">
+              <span className="text-gray-600 shrink-0">{new Date(event.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+              <span style={{ color: CARE_EVENT_COLORS[event.type] }} className="shrink-0">{describeCareEvent(event)}</span>
+              {event.notes && <span className="text-gray-400 truncate">{event.notes}</span>}
+              <button
+                onClick={() => { if (confirm("Delete this care entry?")) onDelete(event.id); }}
+                className="ml-auto text-gray-600 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+              >
+                <Trash2 size={10}/>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CareJournalPanel;
@@ -0,0 +1,166 @@
+import React, { useState, useRef } from 'react';
+import { CapturedImage, FrameMetrics } from '../types';
+import { getDownweightReason } from '../services/confidenceService';
+import AlignedImage from './AlignedImage';
+import { Columns, X, ArrowRight, ArrowLeftRight, AlertTriangle } from 'lucide-react';
+
+interface CompareViewProps {
+  images: CapturedImage[];
+  initialIds: [string, string];
+  minConfidenceThreshold: number;
+  stabilize: boolean;
+  onClose: () => void;
+}
+
+type CompareMode = 'side' | 'wipe' | 'onion';
+
+const METRIC_ROWS: Array<{ key: keyof FrameMetrics; label: string; unit: string }> = [
+  { key: 'canopyCoverage', label: 'Canopy', unit: '%' },
+  { key: 'meanHue', label: 'Hue', unit: '°' },
+  { key: 'meanSaturation', label: 'Saturation', unit: '%' },
+  { key: 'brightness', label: 'Brightness', unit: '%' }
+];
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(Math.abs(ms) / 60000);
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  return [days > 0 ? `${days}d` : '', hours > 0 ? `${hours}h` : '', `${minutes % 60}m`].filter(Boolean).join(' ');
+};
+
+const formatDelta = (a: number | undefined, b: number | undefined, unit: string) => {
+  if (typeof a !== 'number' || typeof b !== 'number') return '-';
+  const d = Math.round((b - a) * 10) / 10;
+  return `${d > 0 ? '+' : ''}${d}${unit}`;
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ images, initialIds, minConfidenceThreshold, stabilize, onClose }) => {
+  const [idA, setIdA] = useState(initialIds[0]);
+  const [idB, setIdB] = useState(initialIds[1]);
+  const [mode, setMode] = useState<CompareMode>('wipe');
+  const [wipe, setWipe] = useState(50);
+  const [opacity, setOpacity] = useState(50);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  const a = images.find(img => img.id === idA);
+  const b = images.find(img => img.id === idB);
+
+  const updateWipe = (clientX: number) => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setWipe(Math.min(100, Math.max(0, (clientX - rect.left) / rect.width * 100)));
+  };
+
+  const swap = () => {
+    setIdA(idB);
+    setIdB(idA);
+  };
+
+  const selectClass = "flex-1 bg-black/50 border border-white/10 rounded px-2 py-1.5 text-[10px] font-mono text-white focus:outline-none focus:border-cyber-accent/50";
+  const renderPicker = (value: string, onChange: (id: string) => void, label: string) => (
+    <select value={value} onChange={e => onChange(e.target.value)} className={selectClass}>
+      {images.map(img => (
+        <option key={img.id} value={img.id}>{label} // {new Date(img.timestamp).toLocaleString()}{img.healthStatus ? ` // ${img.healthStatus}` : ''}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md p-6">
+      <div className="w-full max-w-6xl max-h-full overflow-y-auto custom-scrollbar bg-[#0a0f1a] rounded-2xl border border-white/10 shadow-2xl p-6 space-y-5">
+        <div className="flex justify-between items-center">
+          <h2 className="text-[13px] font-mono font-bold text-cyber-accent flex items-center gap-2 uppercase tracking-[0.1em]"><Columns size={16}/> Frame Comparison</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={18}/></button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {renderPicker(idA, setIdA, 'A')}
+          <button onClick={swap} className="p-1.5 text-gray-500 hover:text-cyber-accent transition-colors" title="Swap A and B"><ArrowLeftRight size={14}/></button>
+          {renderPicker(idB, setIdB, 'B')}
+        </div>
+
+        <div className="flex items-center gap-4">
+          <div className="grid grid-cols-3 gap-1 p-0.5 bg-black/40 rounded border border-white/5">
+            {([['side', 'Side by Side'], ['wipe', 'Wipe'], ['onion', 'Onion Skin']] as const).map(([m, label]) => (
+              <button key={m} onClick={() => setMode(m)} className={`px-3 py-1 text-[9px] rounded uppercase font-bold font-mono transition-all ${mode === m ? 'bg-cyber-accent text-black' : 'text-gray-500 hover:text-white'}`}>{label}</button>
+            ))}
+          </div>
+          {mode === 'onion' && (
+            <label className="flex items-center gap-3 text-[10px] font-mono text-gray-500 uppercase">
+              B Opacity
+              <input type="range" min="0" max="100" value={opacity} onChange={e => setOpacity(parseInt(e.target.value))} className="w-40 accent-cyber-accent" />
+              <span className="text-cyber-accent w-8">{opacity}%</span>
+            </label>
+          )}
+        </div>
+
+        {a && b && (
+          <>
+            {mode === 'side' ? (
+              <div className="grid grid-cols-2 gap-3">
+                {[a, b].map((img, i) => (
+                  <div key={i} className="relative aspect-video bg-black rounded-lg overflow-hidden border border-white/10">
+                    <AlignedImage src={img.dataUrl} alignment={stabilize ? img.alignment : undefined} alt={i === 0 ? 'Frame A' : 'Frame B'} className="w-full h-full" />
+                    <span className="absolute top-2 left-2 px-2 py-0.5 bg-black/70 rounded text-[10px] font-mono font-bold text-cyber-accent">{i === 0 ? 'A' : 'B'}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div
+                ref={stageRef}
+                className={`relative aspect-video bg-black rounded-lg overflow-hidden border border-white/10 select-none ${mode === 'wipe' ? 'cursor-ew-resize' : ''}`}
+                onPointerDown={e => { if (mode !== 'wipe') return; draggingRef.current = true; e.currentTarget.setPointerCapture(e.pointerId); updateWipe(e.clientX); }}
+                onPointerMove={e => { if (draggingRef.current) updateWipe(e.clientX); }}
+                onPointerUp={() => { draggingRef.current = false; }}
+              >
+                <AlignedImage src={a.dataUrl} alignment={stabilize ? a.alignment : undefined} alt="Frame A" draggable={false} className="absolute inset-0 w-full h-full" />
+                {/* The clip sits on a wrapper so the wipe edge stays put when B is aligned */}
+                <div className="absolute inset-0" style={mode === 'wipe' ? { clipPath: `inset(0 0 0 ${wipe}%)` } : { opacity: opacity / 100 }}>
+                  <AlignedImage src={b.dataUrl} alignment={stabilize ? b.alignment : undefined} alt="Frame B" draggable={false} className="w-full h-full" />
+                </div>
+                {mode === 'wipe' && (
+                  <div className="absolute inset-y-0 w-0.5 bg-cyber-accent shadow-[0_0_10px_rgba(132,204,22,0.8)] pointer-events-none" style={{ left: `${wipe}%` }}>
+                    <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 left-1/2 w-6 h-6 rounded-full bg-cyber-accent text-black flex items-center justify-center"><ArrowLeftRight size={12}/></div>
+                  </div>
+                )}
+                <span className="absolute top-2 left-2 px-2 py-0.5 bg-black/70 rounded text-[10px] font-mono font-bold text-cyber-accent">A</span>
+                <span className="absolute top-2 right-2 px-2 py-0.5 bg-black/70 rounded text-[10px] font-mono font-bold text-cyber-accent">B</span>
+              </div>
+            )}
+
+            {/* Differences */}
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="p-4 bg-black/30 rounded-lg border border-white/5 space-y-2 text-[10px] font-mono">
+                <div className="text-gray-500 uppercase tracking-widest">Elapsed</div>
+                <div className="text-lg text-white font-bold">{b.timestamp < a.timestamp ? '-' : ''}{formatDuration(b.timestamp - a.timestamp)}</div>
+                <div className="flex items-center gap-2 text-gray-300">HEALTH {a.healthStatus || '-'} <ArrowRight size={10}/> {b.healthStatus || '-'}</div>
+                <div className="flex items-center gap-2 text-gray-300">STAGE {a.growthStage || '-'} <ArrowRight size={10}/> {b.growthStage || '-'}</div>
+                <div className="flex items-center gap-2 text-gray-300">CONFIDENCE {a.confidence ?? '-'}% <ArrowRight size={10}/> {b.confidence ?? '-'}%</div>
+                {[a, b].map((img, i) => {
+                  const reason = getDownweightReason(img, minConfidenceThreshold);
+                  return reason && <p key={i} className="flex items-start gap-2 text-yellow-400"><AlertTriangle size={12} className="shrink-0"/> {i === 0 ? 'A' : 'B'}: {reason}</p>;
+                })}
+              </div>
+              <div className="p-4 bg-black/30 rounded-lg border border-white/5 text-[10px] font-mono">
+                <div className="grid grid-cols-4 gap-2 text-gray-500 uppercase tracking-widest pb-2 border-b border-white/5">
+                  <span>Metric</span><span>A</span><span>B</span><span>Change</span>
+                </div>
+                {METRIC_ROWS.map(row => (
+                  <div key={row.key} className="grid grid-cols-4 gap-2 py-1.5 text-gray-300">
+                    <span className="text-gray-500">{row.label}</span>
+                    <span>{a.metrics ? `${a.metrics[row.key]}${row.unit}` : '-'}</span>
+                    <span>{b.metrics ? `${b.metrics[row.key]}${row.unit}` : '-'}</span>
+                    <span className="text-cyber-accent">{formatDelta(a.metrics?.[row.key], b.metrics?.[row.key], row.unit)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,198 @@
+import React, { useMemo } from 'react';
+import { CapturedImage, CareEvent, HealthStatus } from '../types';
+import TimeSeriesChart, { ChartSeries } from './TimeSeriesChart';
+import { isLowConfidence, getDownweightReason } from '../services/confidenceService';
+import { careEventMarkers } from '../services/careService';
+import { BarChart3, HeartPulse, Sprout, Tag, Activity, AlertTriangle } from 'lucide-react';
+
+interface DashboardProps {
+  images: CapturedImage[];
+  minConfidenceThreshold: number;
+  selectedId?: string;
+  onSelectFrame: (id: string) => void;
+  careEvents?: CareEvent[];
+}
+
+const MAX_TAG_ROWS = 8;
+
+const HEALTH_COLORS: Record<HealthStatus, string> = {
+  HEALTHY: 'bg-cyber-accent',
+  STRESSED: 'bg-yellow-500',
+  CRITICAL: 'bg-red-500'
+};
+
+const CONFIDENCE_SERIES: ChartSeries[] = [
+  { key: 'confidence', label: 'CONFIDENCE', color: '#22d3ee', min: 0, max: 100, unit: '%' },
+  { key: 'threshold', label: 'THRESHOLD', color: '#6b7280', min: 0, max: 100, unit: '%' },
+  { key: 'canopyCoverage', label: 'CANOPY', color: '#84cc16', min: 0, unit: '%' }
+];
+
+// All lanes share one time axis expressed as a percentage of the observed span.
+const Dashboard: React.FC<DashboardProps> = ({ images, minConfidenceThreshold, selectedId, onSelectFrame, careEvents = [] }) => {
+  const analysed = useMemo(() => images.filter(img => img.healthStatus), [images]);
+  const t0 = images[0]?.timestamp ?? 0;
+  const t1 = images[images.length - 1]?.timestamp ?? 0;
+  const pos = (t: number) => (t1 === t0 ? 50 : (t - t0) / (t1 - t0) * 100);
+
+  // Health bands: each analysed frame colours the span until the next analysed frame.
+  const bands = analysed.map((img, i) => ({
+    img,
+    left: pos(img.timestamp),
+    width: Math.max(0.4, (i < analysed.length - 1 ? pos(analysed[i + 1].timestamp) : 100) - pos(img.timestamp)),
+    low: isLowConfidence(img, minConfidenceThreshold)
+  }));
+
+  // Stage segments break wherever the reported stage changes.
+  const stageSegments = useMemo(() => {
+    const segments: { stage: string; start: CapturedImage; end: number }[] = [];
+    analysed.filter(img => img.growthStage && !isLowConfidence(img, minConfidenceThreshold)).forEach(img => {
+      const last = segments[segments.length - 1];
+      if (last && last.stage === img.growthStage) last.end = img.timestamp;
+      else segments.push({ stage: img.growthStage!, start: img, end: img.timestamp });
+    });
+    return segments;
+  }, [analysed, minConfidenceThreshold]);
+
+  const tagRows = useMemo(() => {
+    const byTag = new Map<string, CapturedImage[]>();
+    analysed.forEach(img => (img.eventTags || []).forEach(t => byTag.set(t, [...(byTag.get(t) || []), img])));
+    return [...byTag.entries()].sort((a, b) => b[1].length - a[1].length).slice(0, MAX_TAG_ROWS);
+  }, [analysed]);
+
+  const careMarkers = careEventMarkers(careEvents.filter(e => e.timestamp >= t0 && e.timestamp <= t1));
+
+  const chartPoints = images.map(img => ({
+    id: img.id,
+    timestamp: img.timestamp,
+    values: { confidence: img.confidence, threshold: minConfidenceThreshold, canopyCoverage: img.metrics?.canopyCoverage }
+  }));
+
+  const counts = analysed.reduce((acc, img) => ({ ...acc, [img.healthStatus!]: acc[img.healthStatus!] + 1 }), { HEALTHY: 0, STRESSED: 0, CRITICAL: 0 } as Record<HealthStatus, number>);
+  const selected = images.find(img => img.id === selectedId);
+  const selectedReason = selected ? getDownweightReason(selected, minConfidenceThreshold) : null;
+
+  if (images.length === 0) {
+    return (
+      <div className="h-96 flex flex-col items-center justify-center text-gray-700 opacity-40">
+        <BarChart3 size={48} className="mb-4 text-cyber-accent/20" />
+        <p className="text-[10px] font-mono tracking-widest uppercase">No frames to chart yet</p>
+      </div>
+    );
+  }
+
+  const renderMarker = (img: CapturedImage, className: string) => (
+    <button
+      key={img.id}
+      onClick={() => onSelectFrame(img.id)}
+      style={{ left: `${pos(img.timestamp)}%` }}
+      className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full transition-transform hover:scale-150 ${className} ${img.id === selectedId ? 'ring-2 ring-white scale-150' : ''}`}
+      title={`${new Date(img.timestamp).toLocaleString()} // ${img.healthStatus || 'UNANALYSED'}${img.growthStage ? ` // ${img.growthStage}` : ''}`}
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {[
+          { label: 'Frames', value: images.length, color: 'text-white' },
+          { label: 'Analysed', value: analysed.length, color: 'text-cyber-success' },
+          { label: 'Healthy', value: counts.HEALTHY, color: 'text-cyber-accent' },
+          { label: 'Stressed', value: counts.STRESSED, color: 'text-yellow-400' },
+          { label: 'Critical', value: counts.CRITICAL, color: 'text-red-400' }
+        ].map(card => (
+          <div key={card.label} className="bg-cyber-800/20 p-4 rounded-xl border border-white/5">
+            <div className="text-[9px] font-mono text-gray-500 uppercase tracking-widest">{card.label}</div>
+            <div className={`text-2xl font-mono font-bold ${card.color}`}>{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-cyber-800/20 p-5 rounded-xl border border-white/5 space-y-6">
+        {/* Health Bands */}
+        <section className="space-y-2">
+          <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-2 uppercase tracking-[0.2em]"><HeartPulse size={12} className="text-cyber-accent"/> Health Status</h3>
+          <div className="relative h-6 bg-black/40 rounded overflow-hidden border border-white/5">
+            {bands.map(({ img, left, width, low }) => (
+              <div
+                key={img.id}
+                onClick={() => onSelectFrame(img.id)}
+                style={{ left: `${left}%`, width: `${width}%` }}
+                className={`absolute inset-y-0 cursor-pointer hover:brightness-125 ${HEALTH_COLORS[img.healthStatus!]} ${low ? 'opacity-25' : 'opacity-80'} ${img.id === selectedId ? 'ring-2 ring-inset ring-white' : ''}`}
+                title={`${new Date(img.timestamp).toLocaleString()} // ${img.healthStatus}${low ? ` // LOW CONF ${img.confidence}%` : ''}`}
+              />
+            ))}
+            {careMarkers.map(m => (
+              <div
+                key={m.id}
+                style={{ left: `${pos(m.timestamp)}%`, background: m.color }}
+                className="absolute inset-y-0 w-0.5 -translate-x-1/2 shadow-[0_0_4px_rgba(0,0,0,0.8)]"
+                title={`${new Date(m.timestamp).toLocaleString()} // ${m.label}`}
+              />
+            ))}
+          </div>
+        </section>
+
+        {/* Confidence & Canopy */}
+        <section className="space-y-2">
+          <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-2 uppercase tracking-[0.2em]"><Activity size={12} className="text-cyber-accent"/> Confidence & Canopy</h3>
+          <TimeSeriesChart points={chartPoints} series={CONFIDENCE_SERIES} selectedId={selectedId} onSelect={onSelectFrame} markers={careMarkers} />
+        </section>
+
+        {/* Growth Stages */}
+        <section className="space-y-2">
+          <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-2 uppercase tracking-[0.2em]"><Sprout size={12} className="text-cyber-accent"/> Growth Stages</h3>
+          <div className="relative h-7 bg-black/40 rounded border border-white/5">
+            {stageSegments.map((seg, i) => (
+              <div
+                key={seg.start.id}
+                onClick={() => onSelectFrame(seg.start.id)}
+                style={{ left: `${pos(seg.start.timestamp)}%`, width: `${Math.max(0.5, (i < stageSegments.length - 1 ? pos(stageSegments[i + 1].start.timestamp) : 100) - pos(seg.start.timestamp))}%` }}
+                className={`absolute inset-y-0 flex items-center px-2 border-l-2 border-pink-400 cursor-pointer overflow-hidden hover:bg-pink-500/10 ${seg.start.id === selectedId ? 'bg-pink-500/20' : ''}`}
+                title={`${seg.stage} from ${new Date(seg.start.timestamp).toLocaleString()}`}
+              >
+                <span className="text-[9px] font-mono text-pink-300 truncate">{seg.stage}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Event Tags */}
+        <section className="space-y-2">
+          <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-2 uppercase tracking-[0.2em]"><Tag size={12} className="text-cyber-accent"/> Event Tags</h3>
+          {tagRows.length === 0 && <p className="text-[10px] font-mono text-gray-600">No tagged events yet.</p>}
+          {tagRows.map(([tag, frames]) => (
+            <div key={tag} className="flex items-center gap-3">
+              <span className="w-24 shrink-0 text-[9px] font-mono text-gray-400 truncate" title={tag}>{tag} ({frames.length})</span>
+              <div className="relative flex-1 h-4 bg-black/30 rounded">
+                {frames.map(img => renderMarker(img, 'w-2 h-2 bg-cyber-success'))}
+              </div>
+            </div>
+          ))}
+        </section>
+      </div>
+
+      {/* Selected Frame */}
+      {selected && (
+        <div className="bg-cyber-800/20 p-5 rounded-xl border border-white/5 flex gap-5">
+          <img src={selected.dataUrl} alt="Selected Frame" className="w-64 h-40 object-cover rounded-lg border border-white/10" />
+          <div className="flex-1 space-y-2 text-xs">
+            <div className="text-[10px] font-mono text-gray-500">{new Date(selected.timestamp).toLocaleString()} // ID-{selected.id.slice(-4)}</div>
+            {selected.healthStatus ? (
+              <>
+                <div className="font-mono text-[11px] text-white">{selected.healthStatus} // {selected.growthStage} // CONF {selected.confidence}%</div>
+                <p className="text-gray-300 leading-relaxed">{selected.analysis}</p>
+                {selected.advice && <p className="text-cyber-accent/80">{selected.advice}</p>}
+              </>
+            ) : (
+              <p className="text-gray-500 font-mono text-[10px]">Not analysed.</p>
+            )}
+            {selectedReason && <p className="flex items-start gap-2 text-[10px] font-mono text-yellow-400"><AlertTriangle size={12} className="shrink-0"/> {selectedReason}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,210 @@
+import React, { useState, useMemo } from 'react';
+import { CapturedImage, MonitorSettings } from '../types';
+import { exportTimelapse, getSupportedFormats, formatTimestamp, ExportFormat } from '../services/exportService';
+import { Film, X, Download, Cpu, Calendar, AlertCircle, Crosshair } from 'lucide-react';
+
+interface ExportPanelProps {
+  images: CapturedImage[];
+  settings: MonitorSettings;
+  onClose: () => void;
+}
+
+const WIDTH_OPTIONS = [480, 720, 1080, 1920];
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ images, settings, onClose }) => {
+  const formats = useMemo(() => getSupportedFormats(), []);
+  const [format, setFormat] = useState<ExportFormat>(formats[0]);
+  const [fps, setFps] = useState(settings.playbackFps);
+  const [width, setWidth] = useState(720);
+  const [startIndex, setStartIndex] = useState(0);
+  const [endIndex, setEndIndex] = useState(images.length - 1);
+  const [burnTimestamp, setBurnTimestamp] = useState(true);
+  const [stabilize, setStabilize] = useState(settings.stabilize);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [output, setOutput] = useState<{ url: string; filename: string } | null>(null);
+
+  const frameCount = endIndex - startIndex + 1;
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    setError(null);
+    if (output) URL.revokeObjectURL(output.url);
+    setOutput(null);
+    setProgress(0);
+    try {
+      const result = await exportTimelapse(images, {
+        format,
+        fps,
+        width,
+        startIndex,
+        endIndex,
+        burnTimestamp,
+        stabilize,
+        timestampPrecision: settings.timestampPrecision
+      }, setProgress);
+      setOutput({ url: URL.createObjectURL(result.blob), filename: result.filename });
+    } catch (e: any) {
+      console.error("Export Error:", e);
+      setError(e.message || "Export failed.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    if (output) URL.revokeObjectURL(output.url);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md">
+      <div className="w-full max-w-lg bg-[#0a0f1a] rounded-2xl border border-white/10 shadow-2xl p-6 space-y-6">
+        <div className="flex justify-between items-center">
+          <h2 className="text-[13px] font-mono font-bold text-cyber-accent flex items-center gap-2 uppercase tracking-[0.1em]"><Film size={16}/> Time-Lapse Export</h2>
+          <button onClick={handleClose} disabled={isExporting} className="text-gray-500 hover:text-white transition-colors disabled:opacity-20"><X size={18}/></button>
+        </div>
+
+        {/* Format */}
+        <section className="space-y-2">
+          <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold">Format</label>
+          <div className="grid grid-cols-3 gap-1 p-1 bg-black/40 rounded border border-white/5">
+            {formats.map(f => (
+              <button
+                key={f}
+                onClick={() => setFormat(f)}
+                disabled={isExporting}
+                className={`py-1.5 text-[10px] rounded uppercase font-bold transition-all ${format === f ? 'bg-cyber-accent text-black shadow-lg shadow-cyber-accent/20' : 'text-gray-500 hover:text-white'}`}
+              >
+                {f}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {/* Resolution & FPS */}
+        <section className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold">Width</label>
+            <div className="grid grid-cols-4 gap-1">
+              {WIDTH_OPTIONS.map(w => (
+                <button
+                  key={w}
+                  onClick={() => setWidth(w)}
+                  disabled={isExporting}
+                  className={`py-1.5 text-[9px] rounded font-bold border transition-all font-mono ${width === w ? 'bg-cyber-success text-black border-transparent' : 'border-white/5 text-gray-500 hover:text-white'}`}
+                >
+                  {w}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between text-[10px] font-mono uppercase tracking-widest">
+              <span className="text-gray-500 font-bold">Speed</span>
+              <span className="text-cyber-success font-bold">{fps} FPS</span>
+            </div>
+            <input
+              type="range"
+              min="1" max="60" step="1"
+              value={fps}
+              disabled={isExporting}
+              onChange={e => setFps(parseInt(e.target.value))}
+              className="w-full h-1 bg-[#1a2333] rounded-lg appearance-none cursor-pointer accent-cyber-success"
+            />
+          </div>
+        </section>
+
+        {/* Frame Range */}
+        <section className="space-y-3">
+          <div className="flex justify-between text-[10px] font-mono uppercase tracking-widest">
+            <span className="text-gray-500 font-bold">Frame Range</span>
+            <span className="text-cyber-accent font-bold">{frameCount} FRAMES // {(frameCount / fps).toFixed(1)}s</span>
+          </div>
+          <div className="space-y-1">
+            <input
+              type="range"
+              min="0" max={images.length - 1} step="1"
+              value={startIndex}
+              disabled={isExporting}
+              onChange={e => setStartIndex(Math.min(parseInt(e.target.value), endIndex))}
+              className="w-full h-1 bg-[#1a2333] rounded-lg appearance-none cursor-pointer accent-cyber-accent"
+            />
+            <input
+              type="range"
+              min="0" max={images.length - 1} step="1"
+              value={endIndex}
+              disabled={isExporting}
+              onChange={e => setEndIndex(Math.max(parseInt(e.target.value), startIndex))}
+              className="w-full h-1 bg-[#1a2333] rounded-lg appearance-none cursor-pointer accent-cyber-accent"
+            />
+          </div>
+          <div className="flex justify-between text-[9px] font-mono text-gray-600">
+            <span>{formatTimestamp(images[startIndex].timestamp, 'both')}</span>
+            <span>{formatTimestamp(images[endIndex].timestamp, 'both')}</span>
+          </div>
+        </section>
+
+        {/* Timestamp Burn-in */}
+        <div className="flex items-center justify-between p-3.5 bg-black/40 rounded border border-white/5">
+          <span className="text-[11px] font-bold text-gray-300 flex items-center gap-2"><Calendar size={12}/> Burn-in T-Stamp ({settings.timestampPrecision.toUpperCase()})</span>
+          <button
+            onClick={() => setBurnTimestamp(!burnTimestamp)}
+            disabled={isExporting}
+            className={`w-9 h-5 rounded-full relative transition-all duration-300 ${burnTimestamp ? 'bg-cyber-accent shadow-[0_0_12px_rgba(132,204,22,0.4)]' : 'bg-gray-700'}`}
+          >
+            <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${burnTimestamp ? 'right-1' : 'left-1'}`}></div>
+          </button>
+        </div>
+
+        {/* Stabilization */}
+        <div className="flex items-center justify-between p-3.5 bg-black/40 rounded border border-white/5">
+          <span className="text-[11px] font-bold text-gray-300 flex items-center gap-2"><Crosshair size={12}/> Stabilize ({images.filter(img => img.alignment).length}/{images.length} aligned)</span>
+          <button
+            onClick={() => setStabilize(!stabilize)}
+            disabled={isExporting}
+            className={`w-9 h-5 rounded-full relative transition-all duration-300 ${stabilize ? 'bg-cyber-accent shadow-[0_0_12px_rgba(132,204,22,0.4)]' : 'bg-gray-700'}`}
+          >
+            <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${stabilize ? 'right-1' : 'left-1'}`}></div>
+          </button>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 text-[11px] text-red-400 bg-red-500/10 border border-red-500/20 rounded px-3 py-2">
+            <AlertCircle size={14}/> {error}
+          </div>
+        )}
+
+        {isExporting && (
+          <div className="space-y-1">
+            <div className="h-1 bg-[#1a2333] rounded-full overflow-hidden">
+              <div className="h-full bg-cyber-accent transition-all" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+            </div>
+            <p className="text-[9px] font-mono text-cyber-accent/60 flex items-center gap-2"><Cpu size={10} className="animate-spin"/> ENCODING {Math.round(progress * 100)}%</p>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex-1 flex items-center justify-center gap-2 py-3 bg-cyber-accent text-black rounded-lg font-bold text-xs tracking-widest uppercase disabled:opacity-30"
+          >
+            <Film size={14}/> {isExporting ? 'Encoding...' : 'Encode'}
+          </button>
+          {output && (
+            <a
+              href={output.url}
+              download={output.filename}
+              className="flex-1 flex items-center justify-center gap-2 py-3 bg-black/80 border border-cyber-accent text-cyber-accent rounded-lg font-bold text-xs tracking-widest uppercase hover:bg-cyber-accent hover:text-black transition-all"
+            >
+              <Download size={14}/> Download
+            </a>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,285 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { CapturedImage, HealthStatus } from '../types';
+import { getDownweightReason, isLowConfidence } from '../services/confidenceService';
+import { QUALITY_ISSUE_LABELS } from '../services/qualityService';
+import { Images, CheckSquare, Square, Trash2, RefreshCw, Film, Columns, X, ChevronLeft, ChevronRight, AlertTriangle, Cpu, Lightbulb } from 'lucide-react';
+
+interface GalleryProps {
+  images: CapturedImage[];
+  minConfidenceThreshold: number;
+  onDelete: (ids: string[]) => void;
+  onReanalyze: (ids: string[]) => void;
+  onExport: (ids: string[]) => void;
+  onCompare: (ids: [string, string]) => void;
+}
+
+type GalleryRow =
+  | { type: 'header'; day: string; count: number }
+  | { type: 'frames'; frames: CapturedImage[] };
+
+// --- Layout Constants ---
+const TILE_MIN_WIDTH = 180;
+const TILE_HEIGHT = 130;
+const GAP = 12;
+const HEADER_HEIGHT = 36;
+const ROW_HEIGHT = TILE_HEIGHT + GAP;
+const OVERSCAN_PX = 600;
+
+const HEALTH_BORDER: Record<HealthStatus, string> = {
+  HEALTHY: 'border-cyber-accent/70',
+  STRESSED: 'border-yellow-500/70',
+  CRITICAL: 'border-red-500/70'
+};
+
+type AnalysisFilter = 'all' | 'analysed' | 'unanalysed';
+
+const Gallery: React.FC<GalleryProps> = ({ images, minConfidenceThreshold, onDelete, onReanalyze, onExport, onCompare }) => {
+  const [healthFilter, setHealthFilter] = useState<HealthStatus | 'ALL'>('ALL');
+  const [stageFilter, setStageFilter] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [analysisFilter, setAnalysisFilter] = useState<AnalysisFilter>('all');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [inspectId, setInspectId] = useState<string | null>(null);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState({ width: 800, height: 600 });
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewport({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const stages = useMemo(() => [...new Set(images.map(i => i.growthStage).filter(Boolean) as string[])].sort(), [images]);
+  const tags = useMemo(() => [...new Set(images.flatMap(i => i.eventTags || []))].sort(), [images]);
+
+  const filtered = useMemo(() => images.filter(img => {
+    if (healthFilter !== 'ALL' && img.healthStatus !== healthFilter) return false;
+    if (stageFilter && img.growthStage !== stageFilter) return false;
+    if (tagFilter && !(img.eventTags || []).includes(tagFilter)) return false;
+    if (analysisFilter === 'analysed' && !img.healthStatus) return false;
+    if (analysisFilter === 'unanalysed' && img.healthStatus) return false;
+    return true;
+  }), [images, healthFilter, stageFilter, tagFilter, analysisFilter]);
+
+  // Newest day first; each day becomes a header row followed by rows of tiles.
+  const columns = Math.max(1, Math.floor((viewport.width + GAP) / (TILE_MIN_WIDTH + GAP)));
+  const rows = useMemo(() => {
+    const days = new Map<string, CapturedImage[]>();
+    [...filtered].reverse().forEach(img => {
+      const key = new Date(img.timestamp).toLocaleDateString([], { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+      days.set(key, [...(days.get(key) || []), img]);
+    });
+    const result: GalleryRow[] = [];
+    days.forEach((frames, day) => {
+      result.push({ type: 'header', day, count: frames.length });
+      for (let i = 0; i < frames.length; i += columns) result.push({ type: 'frames', frames: frames.slice(i, i + columns) });
+    });
+    return result;
+  }, [filtered, columns]);
+
+  const offsets = useMemo(() => {
+    let y = 0;
+    return rows.map(r => {
+      const top = y;
+      y += r.type === 'header' ? HEADER_HEIGHT : ROW_HEIGHT;
+      return top;
+    });
+  }, [rows]);
+  const totalHeight = rows.length > 0 ? offsets[offsets.length - 1] + (rows[rows.length - 1].type === 'header' ? HEADER_HEIGHT : ROW_HEIGHT) : 0;
+  const visible = rows
+    .map((row, i) => ({ row, top: offsets[i] }))
+    .filter(({ top }) => top + ROW_HEIGHT >= scrollTop - OVERSCAN_PX && top <= scrollTop + viewport.height + OVERSCAN_PX);
+  const tileWidth = (viewport.width - GAP * (columns - 1)) / columns;
+
+  const toggleSelect = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const selectedIds = images.filter(img => selected.has(img.id)).map(img => img.id);
+  const inspectIndex = filtered.findIndex(img => img.id === inspectId);
+  const inspected = inspectIndex >= 0 ? filtered[inspectIndex] : null;
+
+  useEffect(() => {
+    if (!inspected) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setInspectId(null);
+      if (e.key === 'ArrowLeft' && inspectIndex > 0) setInspectId(filtered[inspectIndex - 1].id);
+      if (e.key === 'ArrowRight' && inspectIndex < filtered.length - 1) setInspectId(filtered[inspectIndex + 1].id);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [inspected, inspectIndex, filtered]);
+
+  const handleBulkDelete = () => {
+    if (!confirm(`Delete ${selectedIds.length} frames permanently?`)) return;
+    onDelete(selectedIds);
+    setSelected(new Set());
+  };
+
+  const selectClass = "bg-black/50 border border-white/10 rounded px-2 py-1 text-[10px] font-mono text-gray-300 focus:outline-none focus:border-cyber-accent/50";
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 bg-cyber-800/20 p-4 rounded-xl border border-white/5">
+        <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-2 uppercase tracking-[0.2em] mr-2">
+          <Images size={12} className="text-cyber-accent"/> Gallery
+          <span className="text-white bg-white/5 px-2 py-0.5 rounded">{filtered.length}/{images.length}</span>
+        </h3>
+        <div className="flex gap-1 p-0.5 bg-black/40 rounded border border-white/5">
+          {(['ALL', 'HEALTHY', 'STRESSED', 'CRITICAL'] as const).map(h => (
+            <button key={h} onClick={() => setHealthFilter(h)} className={`px-2 py-0.5 text-[9px] rounded font-mono font-bold transition-all ${healthFilter === h ? 'bg-cyber-accent text-black' : 'text-gray-500 hover:text-white'}`}>{h}</button>
+          ))}
+        </div>
+        <select value={stageFilter} onChange={e => setStageFilter(e.target.value)} className={selectClass}>
+          <option value="">All stages</option>
+          {stages.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={tagFilter} onChange={e => setTagFilter(e.target.value)} className={selectClass}>
+          <option value="">All tags</option>
+          {tags.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <select value={analysisFilter} onChange={e => setAnalysisFilter(e.target.value as AnalysisFilter)} className={selectClass}>
+          <option value="all">Analysed + unanalysed</option>
+          <option value="analysed">Analysed only</option>
+          <option value="unanalysed">Unanalysed only</option>
+        </select>
+      </div>
+
+      {/* Bulk Actions */}
+      <div className="flex items-center gap-3 text-[10px] font-mono">
+        <button onClick={() => setSelected(new Set(filtered.map(img => img.id)))} className="flex items-center gap-1 text-gray-500 hover:text-white uppercase tracking-widest"><CheckSquare size={12}/> Select All</button>
+        {selectedIds.length > 0 && (
+          <>
+            <button onClick={() => setSelected(new Set())} className="flex items-center gap-1 text-gray-500 hover:text-white uppercase tracking-widest"><Square size={12}/> Clear</button>
+            <span className="text-cyber-accent font-bold">{selectedIds.length} SELECTED</span>
+            <div className="flex-1"></div>
+            {selectedIds.length === 2 && (
+              <button onClick={() => onCompare([selectedIds[0], selectedIds[1]])} className="flex items-center gap-1 px-3 py-1 border border-white/20 text-gray-300 rounded hover:bg-white hover:text-black uppercase tracking-widest transition-all"><Columns size={10}/> Compare</button>
+            )}
+            <button onClick={() => onReanalyze(selectedIds)} className="flex items-center gap-1 px-3 py-1 border border-cyber-accent/40 text-cyber-accent rounded hover:bg-cyber-accent hover:text-black uppercase tracking-widest transition-all"><RefreshCw size={10}/> Re-analyse</button>
+            <button onClick={() => onExport(selectedIds)} className="flex items-center gap-1 px-3 py-1 border border-cyber-success/40 text-cyber-success rounded hover:bg-cyber-success hover:text-black uppercase tracking-widest transition-all"><Film size={10}/> Export</button>
+            <button onClick={handleBulkDelete} className="flex items-center gap-1 px-3 py-1 border border-red-500/40 text-red-500 rounded hover:bg-red-500 hover:text-white uppercase tracking-widest transition-all"><Trash2 size={10}/> Delete</button>
+          </>
+        )}
+      </div>
+
+      {/* Virtualized Grid */}
+      <div ref={scrollRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className="h-[70vh] overflow-y-auto custom-scrollbar relative">
+        {filtered.length === 0 && (
+          <div className="h-full flex items-center justify-center text-[10px] font-mono text-gray-600 uppercase tracking-widest">No frames match these filters.</div>
+        )}
+        <div style={{ height: totalHeight }} className="relative">
+          {visible.map(({ row, top }) => row.type === 'header' ? (
+            <div key={`h-${row.day}`} style={{ top, height: HEADER_HEIGHT }} className="absolute inset-x-0 flex items-center gap-2 text-[10px] font-mono uppercase tracking-widest text-gray-400 border-b border-white/5">
+              {row.day} <span className="text-gray-600">// {row.count} frames</span>
+            </div>
+          ) : (
+            <div key={`r-${row.frames[0].id}`} style={{ top, height: TILE_HEIGHT }} className="absolute inset-x-0 flex" >
+              {row.frames.map((img, i) => (
+                <div
+                  key={img.id}
+                  onClick={(e) => (e.shiftKey || e.metaKey || e.ctrlKey || selectedIds.length > 0) ? toggleSelect(img.id) : setInspectId(img.id)}
+                  style={{ width: tileWidth, marginLeft: i === 0 ? 0 : GAP }}
+                  className={`group relative h-full rounded-lg overflow-hidden border-2 cursor-pointer transition-all ${selected.has(img.id) ? 'border-cyber-success ring-2 ring-cyber-success/40' : img.healthStatus ? HEALTH_BORDER[img.healthStatus] : 'border-cyber-700'} ${isLowConfidence(img, minConfidenceThreshold) ? 'border-dashed opacity-70' : ''}`}
+                >
+                  <img src={img.dataUrl} alt="Frame" loading="lazy" className="w-full h-full object-cover" />
+                  <button
+                    onClick={(e) => { e.stopPropagation(); toggleSelect(img.id); }}
+                    className={`absolute top-2 left-2 p-0.5 rounded bg-black/70 transition-opacity ${selected.has(img.id) ? 'opacity-100 text-cyber-success' : 'opacity-0 group-hover:opacity-100 text-gray-300'}`}
+                  >
+                    {selected.has(img.id) ? <CheckSquare size={14}/> : <Square size={14}/>}
+                  </button>
+                  {img.analysisStatus === 'pending' && <Cpu size={12} className="absolute top-2 right-2 text-cyber-accent animate-spin"/>}
+                  {img.analysisStatus === 'failed' && <AlertTriangle size={12} className="absolute top-2 right-2 text-red-500"/>}
+                  <div className="absolute bottom-0 inset-x-0 bg-cyber-900/80 px-2 py-1 flex justify-between text-[9px] font-mono text-gray-300">
+                    <span>{new Date(img.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    <span className="text-gray-500 truncate ml-2">{img.growthStage || '-'}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Frame Inspector */}
+      {inspected && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md p-6" onClick={() => setInspectId(null)}>
+          <div className="w-full max-w-6xl max-h-full bg-[#0a0f1a] rounded-2xl border border-white/10 shadow-2xl flex overflow-hidden" onClick={e => e.stopPropagation()}>
+            <div className="relative flex-1 bg-black flex items-center justify-center min-h-[50vh]">
+              <img src={inspected.dataUrl} alt="Full Frame" className="max-w-full max-h-[85vh] object-contain" />
+              <button onClick={() => setInspectId(filtered[inspectIndex - 1].id)} disabled={inspectIndex <= 0} className="absolute left-3 top-1/2 -translate-y-1/2 p-2 bg-black/60 rounded-full text-white disabled:opacity-20"><ChevronLeft size={20}/></button>
+              <button onClick={() => setInspectId(filtered[inspectIndex + 1].id)} disabled={inspectIndex >= filtered.length - 1} className="absolute right-3 top-1/2 -translate-y-1/2 p-2 bg-black/60 rounded-full text-white disabled:opacity-20"><ChevronRight size={20}/></button>
+            </div>
+            <aside className="w-[320px] p-6 space-y-4 overflow-y-auto custom-scrollbar">
+              <div className="flex justify-between items-start">
+                <div className="font-mono">
+                  <div className="text-[11px] text-white">{new Date(inspected.timestamp).toLocaleString()}</div>
+                  <div className="text-[9px] text-gray-500">ID-{inspected.id.slice(-4)} // {inspectIndex + 1} of {filtered.length}{inspected.region ? ` // ${inspected.region.label}` : ''}{inspected.flash ? ' // FLASH' : ''}</div>
+                </div>
+                <button onClick={() => setInspectId(null)} className="text-gray-500 hover:text-white"><X size={18}/></button>
+              </div>
+
+              {inspected.healthStatus ? (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-2 text-[10px] font-mono">
+                    <div className="p-2 bg-black/40 rounded border border-white/5"><div className="text-gray-500">HEALTH</div><div className="text-white font-bold">{inspected.healthStatus}</div></div>
+                    <div className="p-2 bg-black/40 rounded border border-white/5"><div className="text-gray-500">CONFIDENCE</div><div className="text-white font-bold">{inspected.confidence}%</div></div>
+                    <div className="p-2 bg-black/40 rounded border border-white/5 col-span-2"><div className="text-gray-500">STAGE</div><div className="text-white font-bold">{inspected.growthStage}</div></div>
+                  </div>
+                  {inspected.eventTags && inspected.eventTags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {inspected.eventTags.map(t => <span key={t} className="px-1.5 py-0.5 rounded bg-cyber-success/10 border border-cyber-success/30 text-[9px] font-mono text-cyber-success">{t}</span>)}
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-300 leading-relaxed">{inspected.analysis}</p>
+                  {inspected.advice && (
+                    <p className="flex items-start gap-2 text-xs text-cyber-accent/90 leading-relaxed"><Lightbulb size={14} className="shrink-0 mt-0.5"/> {inspected.advice}</p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-[10px] font-mono text-gray-500">{inspected.analysisStatus === 'pending' ? 'Analysis in progress...' : 'Not analysed.'}</p>
+              )}
+
+              {getDownweightReason(inspected, minConfidenceThreshold) && (
+                <p className="flex items-start gap-2 text-[10px] font-mono text-yellow-400"><AlertTriangle size={12} className="shrink-0"/> {getDownweightReason(inspected, minConfidenceThreshold)}</p>
+              )}
+
+              {inspected.metrics && (
+                <div className="grid grid-cols-2 gap-2 text-[9px] font-mono text-gray-400">
+                  <span>CANOPY {inspected.metrics.canopyCoverage}%</span>
+                  <span>BRIGHTNESS {inspected.metrics.brightness}%</span>
+                  <span>HUE {inspected.metrics.meanHue}°</span>
+                  <span>SAT {inspected.metrics.meanSaturation}%</span>
+                </div>
+              )}
+
+              {inspected.quality && (
+                <div className="text-[9px] font-mono text-gray-400">
+                  QUALITY // BRIGHTNESS {inspected.quality.brightness}% // SHARPNESS {inspected.quality.sharpness}
+                  {inspected.quality.issues.length > 0 && <span className="text-orange-400"> // {inspected.quality.issues.map(issue => QUALITY_ISSUE_LABELS[issue]).join(', ')}</span>}
+                </div>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                <button onClick={() => onReanalyze([inspected.id])} disabled={inspected.analysisStatus === 'pending'} className="flex-1 flex items-center justify-center gap-1 py-2 border border-cyber-accent/40 text-cyber-accent rounded text-[10px] font-mono uppercase hover:bg-cyber-accent hover:text-black transition-all disabled:opacity-30"><RefreshCw size={10}/> Re-analyse</button>
+                <button onClick={() => { if (confirm("Delete this frame permanently?")) { onDelete([inspected.id]); setInspectId(null); } }} className="flex items-center justify-center gap-1 px-3 py-2 border border-red-500/40 text-red-500 rounded text-[10px] font-mono uppercase hover:bg-red-500 hover:text-white transition-all"><Trash2 size={10}/></button>
+              </div>
+            </aside>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Gallery;
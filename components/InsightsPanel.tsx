@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { CapturedImage, TimelineInsight } from '../types';
+import { loadInsights, saveInsight, deleteInsight } from '../services/storageService';
+import { inProject } from '../services/projectService';
+import { createInsight, selectComparisonFrames, MAX_TEMPORAL_FRAMES } from '../services/temporalService';
+import { GitCompare, Cpu, Trash2, AlertCircle, TrendingUp, TrendingDown, Minus, ArrowRight } from 'lucide-react';
+
+interface InsightsPanelProps {
+  images: CapturedImage[];
+  projectId: string;
+  onSelectFrame: (id: string) => void;
+}
+
+const TrendIcon: React.FC<{ trend: string }> = ({ trend }) => {
+  if (trend === 'GROWING' || trend === 'IMPROVING') return <TrendingUp size={12} className="text-cyber-accent" />;
+  if (trend === 'SHRINKING' || trend === 'DECLINING') return <TrendingDown size={12} className="text-red-500" />;
+  return <Minus size={12} className="text-gray-500" />;
+};
+
+const InsightsPanel: React.FC<InsightsPanelProps> = ({ images, projectId, onSelectFrame }) => {
+  const [insights, setInsights] = useState<TimelineInsight[]>([]);
+  const [mode, setMode] = useState<TimelineInsight['mode']>('daily');
+  const [count, setCount] = useState(7);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInsights()
+      .then(stored => setInsights(inProject(stored, projectId)))
+      .catch(e => console.error("Insight Load Error:", e));
+  }, [projectId]);
+
+  const candidateCount = selectComparisonFrames(images, mode, count).length;
+
+  const handleAnalyze = async () => {
+    setError(null);
+    setIsAnalyzing(true);
+    try {
+      const insight = { ...await createInsight(images, mode, count), projectId };
+      await saveInsight(insight);
+      setInsights(prev => [...prev, insight]);
+    } catch (e: any) {
+      console.error("Insight Error:", e);
+      setError(e.message || "Temporal analysis failed.");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteInsight(id);
+    setInsights(prev => prev.filter(i => i.id !== id));
+  };
+
+  return (
+    <div className="bg-cyber-800/20 p-5 rounded-xl border border-white/5 backdrop-blur-sm space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-3 uppercase tracking-[0.2em]">
+          <GitCompare size={12} className="text-cyber-accent"/> Temporal Insights
+        </h3>
+        <div className="flex items-center gap-2">
+          <div className="grid grid-cols-2 gap-1 p-0.5 bg-black/40 rounded border border-white/5">
+            {(['daily', 'last-n'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-2 py-0.5 text-[9px] rounded uppercase font-bold font-mono transition-all ${mode === m ? 'bg-cyber-accent text-black' : 'text-gray-500 hover:text-white'}`}
+              >
+                {m === 'daily' ? 'Per Day' : 'Last N'}
+              </button>
+            ))}
+          </div>
+          <input
+            type="number"
+            min={2} max={MAX_TEMPORAL_FRAMES}
+            value={count}
+            onChange={e => setCount(Math.min(MAX_TEMPORAL_FRAMES, Math.max(2, parseInt(e.target.value) || 2)))}
+            className="w-12 bg-black/50 border border-white/10 rounded px-1.5 py-0.5 text-[10px] font-mono text-white focus:outline-none focus:border-cyber-accent/50"
+          />
+          <button
+            onClick={handleAnalyze}
+            disabled={isAnalyzing || candidateCount < 2}
+            className="flex items-center gap-1.5 px-3 py-1 bg-cyber-accent/10 border border-cyber-accent/40 text-cyber-accent rounded text-[9px] font-mono font-bold uppercase tracking-widest hover:bg-cyber-accent hover:text-black transition-all disabled:opacity-30"
+          >
+            {isAnalyzing ? <Cpu size={10} className="animate-spin"/> : <GitCompare size={10}/>} Compare {candidateCount}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-[11px] text-red-400 bg-red-500/10 border border-red-500/20 rounded px-3 py-2">
+          <AlertCircle size={14}/> {error}
+        </div>
+      )}
+
+      {insights.length === 0 ? (
+        <p className="text-[10px] font-mono text-gray-600">No comparisons yet. Compare frames across days to judge growth rate and recovery.</p>
+      ) : (
+        <div className="space-y-3 max-h-80 overflow-y-auto custom-scrollbar pr-1">
+          {[...insights].reverse().map(insight => (
+            <div key={insight.id} className="group p-3.5 bg-black/30 rounded-lg border border-white/5 space-y-2">
+              <div className="flex justify-between items-center text-[9px] font-mono text-gray-500 uppercase tracking-widest">
+                <span>{new Date(insight.createdAt).toLocaleString()} // {insight.frameIds.length} frames // {insight.mode === 'daily' ? 'per day' : 'last n'} // conf {insight.confidence}%</span>
+                <button onClick={() => handleDelete(insight.id)} className="text-gray-600 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"><Trash2 size={10}/></button>
+              </div>
+              <div className="flex flex-wrap gap-4 text-[10px] font-mono">
+                <span className="flex items-center gap-1.5 text-gray-300"><TrendIcon trend={insight.sizeTrend}/> SIZE {insight.sizeChangePercent > 0 ? '+' : ''}{insight.sizeChangePercent}%</span>
+                <span className="flex items-center gap-1.5 text-gray-300"><TrendIcon trend={insight.healthTrend}/> HEALTH {insight.healthTrend}</span>
+              </div>
+              <p className="text-xs text-gray-300 leading-relaxed">{insight.summary}</p>
+              <p className="text-[11px] text-gray-500 leading-relaxed">{insight.colorChange}</p>
+              {insight.stageTransitions.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {insight.stageTransitions.map((t, i) => (
+                    <button key={i} onClick={() => onSelectFrame(t.frameId)} className="flex items-center gap-1 px-2 py-0.5 rounded bg-pink-500/10 border border-pink-500/30 text-[9px] font-mono text-pink-300 hover:bg-pink-500/20">
+                      {t.fromStage} <ArrowRight size={8}/> {t.toStage}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="flex gap-1 overflow-x-auto custom-scrollbar pb-1">
+                {insight.frameIds.map(id => {
+                  const img = images.find(i => i.id === id);
+                  return img ? (
+                    <img key={id} src={img.dataUrl} alt="Compared Frame" onClick={() => onSelectFrame(id)} className="w-12 h-9 object-cover rounded border border-white/10 cursor-pointer hover:border-cyber-accent shrink-0" title={new Date(img.timestamp).toLocaleString()} />
+                  ) : (
+                    <div key={id} className="w-12 h-9 rounded border border-dashed border-white/10 shrink-0"></div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InsightsPanel;
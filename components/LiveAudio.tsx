@@ -6,9 +6,10 @@ interface LiveAudioProps {
   onClose: () => void;
   onCapture: () => void;
   onTranscript: (text: string, isUser: boolean) => void;
+  plantContext?: string;
 }
 
-const LiveAudio: React.FC<LiveAudioProps> = ({ onClose, onCapture, onTranscript }) => {
+const LiveAudio: React.FC<LiveAudioProps> = ({ onClose, onCapture, onTranscript, plantContext }) => {
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [facingMode, setFacingMode] = useState<'user'|'environment'>('user');
@@ -145,7 +146,8 @@ const LiveAudio: React.FC<LiveAudioProps> = ({ onClose, onCapture, onTranscript
         () => { if(!cleanup) setIsConnected(false); },
         (err) => { console.error(err); setError("Connection failed"); },
         handleTranscript,
-        onCapture
+        onCapture,
+        plantContext
       );
 
       sessionPromise.then(session => {
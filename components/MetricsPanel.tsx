@@ -0,0 +1,36 @@
+import React from 'react';
+import { CapturedImage, CareEvent } from '../types';
+import TimeSeriesChart, { ChartSeries } from './TimeSeriesChart';
+import { careEventMarkers } from '../services/careService';
+import { Activity } from 'lucide-react';
+
+interface MetricsPanelProps {
+  images: CapturedImage[];
+  selectedId?: string;
+  onSelectFrame: (id: string) => void;
+  careEvents?: CareEvent[];
+}
+
+const SERIES: ChartSeries[] = [
+  { key: 'canopyCoverage', label: 'CANOPY', color: '#84cc16', min: 0, unit: '%' },
+  { key: 'meanSaturation', label: 'SATURATION', color: '#22d3ee', min: 0, max: 100, unit: '%' },
+  { key: 'meanHue', label: 'HUE', color: '#f472b6', unit: '°' },
+  { key: 'brightness', label: 'BRIGHTNESS', color: '#facc15', min: 0, max: 100, unit: '%' }
+];
+
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ images, selectedId, onSelectFrame, careEvents = [] }) => {
+  const measured = images.filter(img => img.metrics);
+  const points = measured.map(img => ({ id: img.id, timestamp: img.timestamp, values: { ...img.metrics! } }));
+
+  return (
+    <div className="bg-cyber-800/20 p-5 rounded-xl border border-white/5 backdrop-blur-sm space-y-4">
+      <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-3 uppercase tracking-[0.2em]">
+        <Activity size={12} className="text-cyber-accent"/> Growth Curves
+        <span className="text-white bg-white/5 px-2 py-0.5 rounded">LOCAL // {measured.length}/{images.length} MEASURED</span>
+      </h3>
+      <TimeSeriesChart points={points} series={SERIES} selectedId={selectedId} onSelect={onSelectFrame} markers={careEventMarkers(careEvents)} />
+    </div>
+  );
+};
+
+export default MetricsPanel;
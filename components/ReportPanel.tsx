@@ -0,0 +1,206 @@
+import React, { useState, useEffect } from 'react';
+import { CapturedImage, CareEvent, GrowthReport } from '../types';
+import { loadReports, saveReport, deleteReport } from '../services/storageService';
+import { inProject } from '../services/projectService';
+import {
+  createReport,
+  getReportFrames,
+  summarizeByDay,
+  selectKeyFrames,
+  reportToMarkdown,
+  reportToHtml,
+  printReport,
+  downloadText,
+  reportFilename,
+  dayKey
+} from '../services/reportService';
+import { FileText, X, Cpu, Trash2, AlertCircle, Download, Printer } from 'lucide-react';
+
+interface ReportPanelProps {
+  images: CapturedImage[];
+  projectId: string;
+  minConfidenceThreshold: number;
+  careEvents?: CareEvent[];
+  onClose: () => void;
+  onReportGenerated?: (report: GrowthReport) => void;
+}
+
+const ReportPanel: React.FC<ReportPanelProps> = ({ images, projectId, minConfidenceThreshold, careEvents = [], onClose, onReportGenerated }) => {
+  const [reports, setReports] = useState<GrowthReport[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [rangeStart, setRangeStart] = useState(images.length > 0 ? dayKey(images[0].timestamp) : dayKey(Date.now()));
+  const [rangeEnd, setRangeEnd] = useState(images.length > 0 ? dayKey(images[images.length - 1].timestamp) : dayKey(Date.now()));
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReports()
+      .then(stored => {
+        const own = inProject(stored, projectId);
+        setReports(own);
+        if (own.length > 0) setActiveId(own[own.length - 1].id);
+      })
+      .catch(e => console.error("Report Load Error:", e));
+  }, [projectId]);
+
+  const activeReport = reports.find(r => r.id === activeId) || null;
+  const activeFrames = activeReport ? getReportFrames(activeReport, images) : [];
+
+  const handleGenerate = async () => {
+    setError(null);
+    setIsGenerating(true);
+    try {
+      // Date inputs are local days; the range covers the whole end day, whatever its length across DST.
+      const start = new Date(`${rangeStart}T00:00`).getTime();
+      const endDay = new Date(`${rangeEnd}T00:00`);
+      const end = endDay.setDate(endDay.getDate() + 1) - 1;
+      const report = { ...await createReport(images, start, end, minConfidenceThreshold, careEvents), projectId };
+      await saveReport(report);
+      setReports(prev => [...prev, report]);
+      setActiveId(report.id);
+      onReportGenerated?.(report);
+    } catch (e: any) {
+      console.error("Report Error:", e);
+      setError(e.message || "Report generation failed.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this report?")) return;
+    await deleteReport(id);
+    setReports(prev => prev.filter(r => r.id !== id));
+    if (activeId === id) setActiveId(null);
+  };
+
+  const handleExport = async (kind: 'md' | 'html' | 'pdf') => {
+    if (!activeReport) return;
+    setError(null);
+    try {
+      if (kind === 'md') downloadText(await reportToMarkdown(activeReport, images), reportFilename(activeReport, 'md'), 'text/markdown');
+      if (kind === 'html') downloadText(await reportToHtml(activeReport, images), reportFilename(activeReport, 'html'), 'text/html');
+      if (kind === 'pdf') await printReport(activeReport, images);
+    } catch (e: any) {
+      console.error("Report Export Error:", e);
+      setError(e.message || "Export failed.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md">
+      <div className="w-full max-w-5xl h-[85vh] bg-[#0a0f1a] rounded-2xl border border-white/10 shadow-2xl flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center p-5 border-b border-white/5">
+          <h2 className="text-[13px] font-mono font-bold text-cyber-accent flex items-center gap-2 uppercase tracking-[0.1em]"><FileText size={16}/> Growth Reports</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors"><X size={18}/></button>
+        </div>
+
+        <div className="flex-1 flex overflow-hidden">
+          {/* Generator & Archive */}
+          <aside className="w-[280px] border-r border-white/5 p-5 space-y-6 overflow-y-auto custom-scrollbar">
+            <section className="space-y-3">
+              <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold">Date Range</label>
+              <div className="grid grid-cols-2 gap-2">
+                <input type="date" value={rangeStart} max={rangeEnd} onChange={e => setRangeStart(e.target.value)} className="bg-black/50 border border-white/10 rounded px-2 py-1.5 text-[11px] font-mono text-white focus:outline-none focus:border-cyber-accent/50" />
+                <input type="date" value={rangeEnd} min={rangeStart} onChange={e => setRangeEnd(e.target.value)} className="bg-black/50 border border-white/10 rounded px-2 py-1.5 text-[11px] font-mono text-white focus:outline-none focus:border-cyber-accent/50" />
+              </div>
+              <button
+                onClick={handleGenerate}
+                disabled={isGenerating || images.length === 0}
+                className="w-full flex items-center justify-center gap-2 py-2.5 bg-cyber-accent text-black rounded-lg font-bold text-[10px] tracking-widest uppercase disabled:opacity-30"
+              >
+                {isGenerating ? <><Cpu size={12} className="animate-spin"/> Generating...</> : <><FileText size={12}/> Generate</>}
+              </button>
+              <p className="text-[9px] font-mono text-gray-600">Frames below {minConfidenceThreshold}% confidence are excluded.</p>
+            </section>
+
+            {error && (
+              <div className="flex items-start gap-2 text-[11px] text-red-400 bg-red-500/10 border border-red-500/20 rounded px-3 py-2">
+                <AlertCircle size={14} className="shrink-0"/> {error}
+              </div>
+            )}
+
+            <section className="space-y-2">
+              <label className="text-[10px] font-mono text-gray-500 uppercase tracking-widest font-bold">Archive</label>
+              {reports.length === 0 && <p className="text-[10px] font-mono text-gray-600">No reports yet.</p>}
+              {[...reports].reverse().map(r => (
+                <div
+                  key={r.id}
+                  onClick={() => setActiveId(r.id)}
+                  className={`group flex justify-between items-center p-2.5 rounded border cursor-pointer transition-all ${r.id === activeId ? 'bg-cyber-accent/10 border-cyber-accent/40' : 'bg-black/30 border-white/5 hover:border-white/20'}`}
+                >
+                  <div className="font-mono">
+                    <div className="text-[10px] text-white">{dayKey(r.rangeStart)} → {dayKey(r.rangeEnd)}</div>
+                    <div className="text-[9px] text-gray-500">{r.frameIds.length} FRAMES // {new Date(r.createdAt).toLocaleDateString()}</div>
+                  </div>
+                  <button onClick={(e) => { e.stopPropagation(); handleDelete(r.id); }} className="text-gray-600 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"><Trash2 size={12}/></button>
+                </div>
+              ))}
+            </section>
+          </aside>
+
+          {/* Viewer */}
+          <main className="flex-1 p-6 overflow-y-auto custom-scrollbar">
+            {!activeReport ? (
+              <div className="h-full flex flex-col items-center justify-center text-gray-700 opacity-40">
+                <FileText size={48} className="mb-4 text-cyber-accent/20" />
+                <p className="text-[10px] font-mono tracking-widest uppercase">Select or generate a report</p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-sm font-bold text-white">Growth Report {dayKey(activeReport.rangeStart)} → {dayKey(activeReport.rangeEnd)}</h3>
+                    <p className="text-[10px] font-mono text-gray-500">{activeReport.frameIds.length} source frames{activeFrames.length < activeReport.frameIds.length ? ` (${activeReport.frameIds.length - activeFrames.length} no longer in archive)` : ''}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    {(['md', 'html'] as const).map(kind => (
+                      <button key={kind} onClick={() => handleExport(kind)} className="flex items-center gap-1 px-3 py-1.5 border border-white/10 rounded text-[9px] font-mono font-bold text-gray-400 hover:text-cyber-accent hover:border-cyber-accent/40 uppercase transition-all">
+                        <Download size={10}/> {kind}
+                      </button>
+                    ))}
+                    <button onClick={() => handleExport('pdf')} className="flex items-center gap-1 px-3 py-1.5 border border-white/10 rounded text-[9px] font-mono font-bold text-gray-400 hover:text-cyber-accent hover:border-cyber-accent/40 uppercase transition-all">
+                      <Printer size={10}/> PDF
+                    </button>
+                  </div>
+                </div>
+
+                <p className="text-sm text-gray-300 leading-relaxed whitespace-pre-wrap">{activeReport.text}</p>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-[10px] font-mono">
+                    <thead>
+                      <tr className="text-gray-500 uppercase text-left border-b border-white/10">
+                        <th className="py-2 pr-3">Day</th><th className="pr-3">Frames</th><th className="pr-3 text-cyber-accent">Healthy</th><th className="pr-3 text-yellow-500">Stressed</th><th className="pr-3 text-red-500">Critical</th><th className="pr-3">Stage</th><th>Tags</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summarizeByDay(activeFrames).map(d => (
+                        <tr key={d.day} className="border-b border-white/5 text-gray-300">
+                          <td className="py-1.5 pr-3">{d.day}</td><td className="pr-3">{d.frames}</td><td className="pr-3">{d.health.HEALTHY}</td><td className="pr-3">{d.health.STRESSED}</td><td className="pr-3">{d.health.CRITICAL}</td><td className="pr-3">{d.stage}</td><td className="text-gray-500">{d.tags.join(', ') || '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  {selectKeyFrames(activeFrames).map(f => (
+                    <div key={f.id} className="rounded-lg overflow-hidden border border-white/10">
+                      <img src={f.dataUrl} alt="Key Frame" className="w-full h-28 object-cover" />
+                      <div className="p-2 text-[9px] font-mono text-gray-400">
+                        {new Date(f.timestamp).toLocaleString()}<br/>{f.healthStatus} / {f.growthStage}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </main>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportPanel;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
+  min?: number;
+  max?: number;
+  unit?: string;
+}
+
+export interface ChartPoint {
+  id: string;
+  timestamp: number;
+  values: Record<string, number | undefined>;
+}
+
+// Vertical annotation at a point in time, e.g. a care journal entry.
+export interface ChartMarker {
+  id: string;
+  timestamp: number;
+  label: string;
+  color: string;
+}
+
+interface TimeSeriesChartProps {
+  points: ChartPoint[];
+  series: ChartSeries[];
+  height?: number;
+  selectedId?: string;
+  onSelect?: (id: string) => void;
+  markers?: ChartMarker[];
+}
+
+const WIDTH = 600;
+const PAD = { top: 10, right: 4, bottom: 16, left: 4 };
+
+// Lightweight SVG line chart; each series is normalised to its own range so mixed units share one plot.
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ points, series, height = 140, selectedId, onSelect, markers = [] }) => {
+  const [hoverId, setHoverId] = useState<string | null>(null);
+
+  if (points.length < 2) {
+    return <div className="flex items-center justify-center text-[10px] font-mono text-gray-600 border border-dashed border-white/10 rounded" style={{ height }}>Not enough data points yet.</div>;
+  }
+
+  const t0 = points[0].timestamp;
+  const t1 = points[points.length - 1].timestamp;
+  const x = (t: number) => PAD.left + (t1 === t0 ? 0.5 : (t - t0) / (t1 - t0)) * (WIDTH - PAD.left - PAD.right);
+
+  const ranges = Object.fromEntries(series.map(s => {
+    const vals = points.map(p => p.values[s.key]).filter((v): v is number => typeof v === 'number');
+    const min = s.min ?? (vals.length > 0 ? Math.min(...vals) : 0);
+    const max = s.max ?? (vals.length > 0 ? Math.max(...vals) : 1);
+    return [s.key, { min, max: max === min ? min + 1 : max }];
+  }));
+  const y = (key: string, v: number) => {
+    const { min, max } = ranges[key];
+    return PAD.top + (1 - (v - min) / (max - min)) * (height - PAD.top - PAD.bottom);
+  };
+
+  const visibleMarkers = markers.filter(m => m.timestamp >= t0 && m.timestamp <= t1);
+  const activeId = hoverId || selectedId;
+  const active = points.find(p => p.id === activeId);
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" style={{ height }} preserveAspectRatio="none" onMouseLeave={() => setHoverId(null)}>
+        {series.map(s => {
+          const path = points
+            .filter(p => typeof p.values[s.key] === 'number')
+            .map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.timestamp).toFixed(1)},${y(s.key, p.values[s.key]!).toFixed(1)}`)
+            .join(' ');
+          return <path key={s.key} d={path} fill="none" stroke={s.color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />;
+        })}
+        {visibleMarkers.map(m => (
+          <line key={m.id} x1={x(m.timestamp)} x2={x(m.timestamp)} y1={0} y2={height - PAD.bottom} stroke={m.color} strokeOpacity={0.6} strokeDasharray="2 4" vectorEffect="non-scaling-stroke" />
+        ))}
+        {active && <line x1={x(active.timestamp)} x2={x(active.timestamp)} y1={PAD.top} y2={height - PAD.bottom} stroke="rgba(255,255,255,0.3)" strokeDasharray="3 3" vectorEffect="non-scaling-stroke" />}
+        {/* Invisible hit areas, one per point */}
+        {points.map((p, i) => {
+          const left = i === 0 ? PAD.left : (x(points[i - 1].timestamp) + x(p.timestamp)) / 2;
+          const right = i === points.length - 1 ? WIDTH - PAD.right : (x(p.timestamp) + x(points[i + 1].timestamp)) / 2;
+          return (
+            <rect
+              key={p.id}
+              x={left} y={0} width={Math.max(1, right - left)} height={height}
+              fill="transparent"
+              className={onSelect ? 'cursor-pointer' : ''}
+              onMouseEnter={() => setHoverId(p.id)}
+              onClick={() => onSelect?.(p.id)}
+            />
+          );
+        })}
+      </svg>
+      {/* Marker labels sit in HTML so they stay readable despite the stretched viewBox */}
+      {visibleMarkers.map(m => (
+        <span
+          key={m.id}
+          style={{ left: `${x(m.timestamp) / WIDTH * 100}%`, background: m.color }}
+          className="absolute top-0 -translate-x-1/2 w-1.5 h-1.5 rounded-full"
+          title={`${new Date(m.timestamp).toLocaleString()} // ${m.label}`}
+        />
+      ))}
+      <div className="flex justify-between text-[8px] font-mono text-gray-600 -mt-3 px-1 pointer-events-none">
+        <span>{new Date(t0).toLocaleDateString()}</span>
+        <span>{new Date(t1).toLocaleDateString()}</span>
+      </div>
+      <div className="flex flex-wrap gap-3 mt-1 text-[9px] font-mono">
+        {series.map(s => (
+          <span key={s.key} className="flex items-center gap-1.5" style={{ color: s.color }}>
+            <span className="w-2 h-0.5 inline-block" style={{ background: s.color }}></span>
+            {s.label}{active && typeof active.values[s.key] === 'number' ? `: ${active.values[s.key]}${s.unit || ''}` : ''}
+          </span>
+        ))}
+        {active && <span className="text-gray-500 ml-auto">{new Date(active.timestamp).toLocaleString()}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default TimeSeriesChart;
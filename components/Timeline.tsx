@@ -1,15 +1,33 @@
-import React from 'react';
-import { CapturedImage } from '../types';
-import { Clock, Eye, AlertTriangle, Leaf, Sprout, Flower, Sun, HelpCircle } from 'lucide-react';
+import React, { Fragment, useRef, useEffect } from 'react';
+import { CapturedImage, CareEvent } from '../types';
+import { isLowConfidence, getDownweightReason } from '../services/confidenceService';
+import { CaptureGap } from '../services/captureHealthService';
+import { QUALITY_ISSUE_LABELS } from '../services/qualityService';
+import { CARE_EVENT_COLORS, describeCareEvent } from '../services/careService';
+import { Clock, Eye, AlertTriangle, Unlink, Leaf, Sprout, Flower, Sun, HelpCircle, Cpu, Paperclip, Droplets } from 'lucide-react';
 
 interface TimelineProps {
   images: CapturedImage[];
+  minConfidenceThreshold: number;
   onSelect: (img: CapturedImage) => void;
+  attachedIds?: string[];
+  onAttach?: (img: CapturedImage, extendRange: boolean) => void;
+  selectedId?: string;
+  gaps?: CaptureGap[];
+  careEvents?: CareEvent[];
 }
 
-const Timeline: React.FC<TimelineProps> = ({ images, onSelect }) => {
+const Timeline: React.FC<TimelineProps> = ({ images, minConfidenceThreshold, onSelect, attachedIds = [], onAttach, selectedId, gaps = [], careEvents = [] }) => {
+  const itemRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+
+  // Bring the selected frame into view when it is chosen from elsewhere (e.g. a chat citation).
+  useEffect(() => {
+    if (selectedId) itemRefs.current.get(selectedId)?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
+  }, [selectedId]);
+
   const getHealthColor = (img: CapturedImage) => {
-    // Priority: Explicit Metadata -> Text Analysis -> Default
+    // Priority: Down-weighted -> Explicit Metadata -> Text Analysis -> Default
+    if (isLowConfidence(img, minConfidenceThreshold)) return 'border-dashed border-gray-500 opacity-70';
     if (img.healthStatus === 'CRITICAL') return 'border-red-500 shadow-[0_0_10px_rgba(239,68,68,0.4)]';
     if (img.healthStatus === 'STRESSED') return 'border-yellow-500 shadow-[0_0_10px_rgba(234,179,8,0.4)]';
     if (img.healthStatus === 'HEALTHY') return 'border-cyber-accent shadow-[0_0_10px_rgba(132,204,22,0.4)]';
@@ -33,6 +51,19 @@ const Timeline: React.FC<TimelineProps> = ({ images, onSelect }) => {
     return <HelpCircle size={12} className="text-gray-400" />;
   };
 
+  const renderCareEvent = (event: CareEvent) => (
+    <div
+      key={event.id}
+      style={{ borderColor: CARE_EVENT_COLORS[event.type], color: CARE_EVENT_COLORS[event.type] }}
+      className="w-16 h-32 shrink-0 rounded-lg border-2 bg-black/40 flex flex-col items-center justify-center gap-1 px-1 text-[8px] font-mono text-center overflow-hidden"
+      title={`${new Date(event.timestamp).toLocaleString()} // ${describeCareEvent(event)}${event.notes ? ` // ${event.notes}` : ''}`}
+    >
+      <Droplets size={12}/>
+      <span className="break-words leading-tight">{describeCareEvent(event)}</span>
+      <span className="text-gray-500">{new Date(event.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+    </div>
+  );
+
   if (images.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-48 text-gray-500 border border-dashed border-cyber-700 rounded-lg">
@@ -45,40 +76,106 @@ const Timeline: React.FC<TimelineProps> = ({ images, onSelect }) => {
   return (
     <div className="w-full overflow-x-auto pb-4 custom-scrollbar">
       <div className="flex space-x-4 min-w-max px-1">
-        {[...images].reverse().map((img) => (
-          <div 
-            key={img.id} 
-            onClick={() => onSelect(img)}
-            className={`group relative cursor-pointer w-48 h-32 rounded-lg overflow-hidden border-2 transition-all hover:scale-105 ${getHealthColor(img)}`}
-          >
-            <img src={img.dataUrl} alt="Snapshot" className="w-full h-full object-cover" />
-            <div className="absolute inset-0 bg-black/40 group-hover:bg-black/0 transition-colors"></div>
-            
-            {/* Analysis Available Indicator */}
-            {img.analysis && (
-               <div className="absolute top-2 right-2 bg-cyber-accent text-black rounded-full p-1 shadow-[0_0_10px_#84cc16] animate-pulse z-10">
-                 <Eye size={10} />
-               </div>
-            )}
-
-            {/* Growth Stage Icon */}
-            {img.growthStage && (
+        {careEvents.filter(e => e.timestamp > images[images.length - 1].timestamp).reverse().map(renderCareEvent)}
+        {[...images].reverse().map((img, i, newestFirst) => {
+          // Gaps and care events between this frame and the previous (older) one render to its right.
+          const older = newestFirst[i + 1];
+          const gapsBefore = older ? gaps.filter(g => g.start >= older.timestamp && g.end <= img.timestamp) : [];
+          const careBefore = careEvents
+            .filter(e => e.timestamp <= img.timestamp && (!older || e.timestamp > older.timestamp))
+            .reverse();
+          return (
+            <Fragment key={img.id}>
               <div 
-                className="absolute top-2 left-2 bg-black/80 p-1 rounded-full border border-gray-600 shadow-md backdrop-blur-sm"
-                title={`Stage: ${img.growthStage}`}
+                ref={(el) => { if (el) itemRefs.current.set(img.id, el); else itemRefs.current.delete(img.id); }}
+                onClick={() => onSelect(img)}
+                className={`group relative cursor-pointer w-48 h-32 rounded-lg overflow-hidden border-2 transition-all hover:scale-105 ${getHealthColor(img)} ${img.id === selectedId ? 'ring-2 ring-white ring-offset-2 ring-offset-black' : ''}`}
               >
-                {getStageIcon(img.growthStage)}
+                <img src={img.dataUrl} alt="Snapshot" className="w-full h-full object-cover" />
+                <div className="absolute inset-0 bg-black/40 group-hover:bg-black/0 transition-colors"></div>
+          
+                {/* Analysis Available Indicator */}
+                {img.analysis && img.analysisStatus !== 'failed' && (
+                   <div className="absolute top-2 right-2 bg-cyber-accent text-black rounded-full p-1 shadow-[0_0_10px_#84cc16] animate-pulse z-10">
+                     <Eye size={10} />
+                   </div>
+                )}
+
+                {/* Analysis Pending / Failed Indicators */}
+                {img.analysisStatus === 'pending' && (
+                   <div className="absolute top-2 right-2 bg-black/80 text-cyber-accent rounded-full p-1 border border-cyber-accent/40 z-10" title="Analysis in progress">
+                     <Cpu size={10} className="animate-spin" />
+                   </div>
+                )}
+                {img.analysisStatus === 'failed' && (
+                   <div className="absolute top-2 right-2 bg-red-500 text-white rounded-full p-1 shadow-[0_0_10px_rgba(239,68,68,0.6)] z-10" title={img.analysisError || 'Analysis failed'}>
+                     <AlertTriangle size={10} />
+                   </div>
+                )}
+
+                {/* Chat Attachment Toggle (Shift+Click attaches a range) */}
+                {onAttach && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onAttach(img, e.shiftKey); }}
+                    className={`absolute top-2 left-1/2 -translate-x-1/2 p-1 rounded-full border z-10 transition-all ${attachedIds.includes(img.id) ? 'bg-cyber-success text-black border-transparent opacity-100' : 'bg-black/80 text-gray-400 border-gray-600 opacity-0 group-hover:opacity-100 hover:text-cyber-success'}`}
+                    title="Attach to chat (Shift+Click for range)"
+                  >
+                    <Paperclip size={10} />
+                  </button>
+                )}
+
+                {/* Low Confidence Badge */}
+                {isLowConfidence(img, minConfidenceThreshold) && (
+                  <div
+                    className="absolute bottom-10 left-2 bg-yellow-500/90 text-black text-[8px] font-mono font-bold px-1.5 py-0.5 rounded flex items-center gap-1 z-10"
+                    title={getDownweightReason(img, minConfidenceThreshold) || undefined}
+                  >
+                    <AlertTriangle size={8} /> LOW CONF {img.confidence}%
+                  </div>
+                )}
+
+                {/* Quality Flags */}
+                {img.quality && img.quality.issues.length > 0 && (
+                  <div
+                    className="absolute bottom-10 right-2 bg-orange-500/90 text-black text-[8px] font-mono font-bold px-1.5 py-0.5 rounded z-10"
+                    title={`Brightness ${img.quality.brightness}% // Sharpness ${img.quality.sharpness}${img.quality.similarity !== undefined ? ` // ${img.quality.similarity}% similar to previous` : ''}`}
+                  >
+                    {img.quality.issues.map(issue => QUALITY_ISSUE_LABELS[issue]).join(' · ')}
+                  </div>
+                )}
+
+                {/* Growth Stage Icon */}
+                {img.growthStage && (
+                  <div 
+                    className="absolute top-2 left-2 bg-black/80 p-1 rounded-full border border-gray-600 shadow-md backdrop-blur-sm"
+                    title={`Stage: ${img.growthStage}`}
+                  >
+                    {getStageIcon(img.growthStage)}
+                  </div>
+                )}
+
+                <div className="absolute bottom-0 left-0 right-0 bg-cyber-900/80 p-2 flex justify-between items-center backdrop-blur-sm border-t border-cyber-700/50">
+                  <span className="text-[10px] font-mono text-gray-300">
+                    {new Date(img.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  <span className="text-[9px] text-cyber-accent/50 font-mono">ID-{img.id.slice(-4)}</span>
+                </div>
               </div>
-            )}
-
-            <div className="absolute bottom-0 left-0 right-0 bg-cyber-900/80 p-2 flex justify-between items-center backdrop-blur-sm border-t border-cyber-700/50">
-              <span className="text-[10px] font-mono text-gray-300">
-                {new Date(img.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-              </span>
-              <span className="text-[9px] text-cyber-accent/50 font-mono">ID-{img.id.slice(-4)}</span>
-            </div>
-          </div>
-        ))}
+              {gapsBefore.map(g => (
+                <div 
+                  key={g.end} 
+                  className="w-16 h-32 shrink-0 rounded-lg border-2 border-dashed border-red-500/40 flex flex-col items-center justify-center gap-1 text-red-400/80 text-[8px] font-mono text-center"
+                  title={`No captures from ${new Date(g.start).toLocaleString()} to ${new Date(g.end).toLocaleString()}`}
+                >
+                  <Unlink size={12}/>
+                  <span>GAP</span>
+                  <span>{g.missedSlots} MISSED</span>
+                </div>
+              ))}
+              {careBefore.map(renderCareEvent)}
+            </Fragment>
+          );
+        })}
       </div>
     </div>
   );
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { WebhookConfig, WebhookDelivery } from '../types';
+import { WEBHOOK_EVENTS, createWebhook } from '../services/webhookService';
+import { Webhook, Plus, Send, Trash2, Cpu } from 'lucide-react';
+
+interface WebhooksPanelProps {
+  hooks: WebhookConfig[];
+  onChange: (hooks: WebhookConfig[]) => void;
+  deliveries: WebhookDelivery[];
+  onTest: (hook: WebhookConfig) => Promise<void>;
+  onClearLog: () => void;
+}
+
+const MAX_DELIVERY_ROWS = 50;
+
+const inputClass = "bg-black/50 border border-white/10 rounded px-2 py-1 text-[10px] text-white focus:outline-none focus:border-cyber-accent/50";
+
+const WebhooksPanel: React.FC<WebhooksPanelProps> = ({ hooks, onChange, deliveries, onTest, onClearLog }) => {
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const failed = deliveries.filter(d => d.status === 'failed').length;
+
+  const updateHook = (id: string, patch: Partial<WebhookConfig>) =>
+    onChange(hooks.map(h => h.id === id ? { ...h, ...patch } : h));
+
+  const handleTest = async (hook: WebhookConfig) => {
+    setTestingId(hook.id);
+    try {
+      await onTest(hook);
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-cyber-800/20 p-5 rounded-xl border border-white/5 backdrop-blur-sm space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[10px] font-mono text-gray-500 flex items-center gap-3 uppercase tracking-[0.2em]">
+          <Webhook size={12} className="text-cyber-accent"/> Webhooks
+          <span className="text-white bg-white/5 px-2 py-0.5 rounded">{hooks.filter(h => h.enabled).length}/{hooks.length} ACTIVE</span>
+          {failed > 0 && <span className="text-red-400 bg-red-500/10 px-2 py-0.5 rounded">{failed} FAILED</span>}
+        </h3>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => onChange([...hooks, createWebhook()])}
+            className="text-[9px] text-gray-500 hover:text-cyber-accent flex items-center gap-1 uppercase tracking-widest transition-colors"
+          >
+            <Plus size={10}/> Add
+          </button>
+          <button
+            onClick={() => { if (confirm("Clear the delivery log?")) onClearLog(); }}
+            disabled={deliveries.length === 0}
+            className="text-[9px] text-gray-500 hover:text-red-500 flex items-center gap-1 uppercase tracking-widest transition-colors disabled:opacity-30"
+          >
+            <Trash2 size={10}/> Clear Log
+          </button>
+        </div>
+      </div>
+
+      {hooks.length === 0 && <p className="text-[10px] font-mono text-gray-600">No webhooks configured.</p>}
+      {hooks.map(hook => (
+        <div key={hook.id} className="space-y-2 p-3 bg-black/30 rounded border border-white/5">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => updateHook(hook.id, { enabled: !hook.enabled })}
+              className={`w-9 h-5 rounded-full relative transition-all duration-300 shrink-0 ${hook.enabled ? 'bg-cyber-accent shadow-[0_0_12px_rgba(132,204,22,0.4)]' : 'bg-gray-700'}`}
+            >
+              <div className={`absolute top-1 w-3 h-3 rounded-full bg-white shadow-sm transition-all duration-300 ${hook.enabled ? 'right-1' : 'left-1'}`}></div>
+            </button>
+            <input type="text" value={hook.name} onChange={(e) => updateHook(hook.id, { name: e.target.value })} className={`${inputClass} w-28`} />
+            <input type="url" value={hook.url} onChange={(e) => updateHook(hook.id, { url: e.target.value })} placeholder="https://..." className={`${inputClass} flex-1 min-w-0`} />
+            <button
+              onClick={() => handleTest(hook)}
+              disabled={!hook.url || testingId === hook.id}
+              className="text-gray-500 hover:text-cyber-accent transition-colors disabled:opacity-30"
+              title="Send a test delivery"
+            >
+              {testingId === hook.id ? <Cpu size={12} className="animate-spin"/> : <Send size={12}/>}
+            </button>
+            <button onClick={() => onChange(hooks.filter(h => h.id !== hook.id))} className="text-gray-600 hover:text-red-500 transition-colors" title="Delete webhook">
+              <Trash2 size={10}/>
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-[9px] font-mono text-gray-400">
+            {WEBHOOK_EVENTS.map(event => (
+              <label key={event} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={hook.events.includes(event)}
+                  onChange={(e) => updateHook(hook.id, { events: e.target.checked ? [...hook.events, event] : hook.events.filter(x => x !== event) })}
+                  className="accent-cyber-accent"
+                /> {event}
+              </label>
+            ))}
+            <label className="flex items-center gap-1" title="Embed the frame JPEG as a data URL">
+              <input type="checkbox" checked={hook.includeImage} onChange={(e) => updateHook(hook.id, { includeImage: e.target.checked })} className="accent-cyber-accent" /> IMAGE
+            </label>
+            <input
+              type="password"
+              value={hook.secret || ''}
+              onChange={(e) => updateHook(hook.id, { secret: e.target.value || undefined })}
+              placeholder="Signing secret"
+              title="Signs each body with HMAC-SHA256 (X-Chronos-Signature); the secret is never sent"
+              className={`${inputClass} ml-auto w-32`}
+            />
+          </div>
+        </div>
+      ))}
+
+      {deliveries.length > 0 && (
+        <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+          {[...deliveries].reverse().slice(0, MAX_DELIVERY_ROWS).map(d => (
+            <div key={d.id} className="flex gap-3 text-[10px] font-mono">
+              <span className="text-gray-600 shrink-0">{new Date(d.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit' })}</span>
+              <span className="text-gray-400 shrink-0 w-24 truncate">{hooks.find(h => h.id === d.webhookId)?.name || 'Removed'}</span>
+              <span className="text-gray-300 shrink-0">{d.event}</span>
+              <span className={d.status === 'delivered' ? 'text-cyber-success' : 'text-red-400'}>
+                {d.status === 'delivered' ? `HTTP ${d.httpStatus}` : d.error} // {d.attempts} attempt{d.attempts === 1 ? '' : 's'} // {d.durationMs}ms
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebhooksPanel;
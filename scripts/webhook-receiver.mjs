@@ -0,0 +1,70 @@
+// Local stand-in for a webhook endpoint. Logs every delivery so the integration can be checked without a real backend.
+//   npm run webhook:receiver
+//   PORT=9000 FAIL_FIRST=2 npm run webhook:receiver   (answers 503 to the first two attempts of each delivery to exercise retries)
+//   SECRET=... npm run webhook:receiver                (rejects deliveries whose X-Chronos-Signature does not match)
+import { createServer } from 'node:http';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 8787);
+const FAIL_FIRST = Number(process.env.FAIL_FIRST || 0);
+const SECRET = process.env.SECRET || '';
+const attemptsById = new Map();
+
+// The app posts from the browser, so the preflight must allow its custom headers.
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, X-Chronos-Event, X-Chronos-Delivery, X-Chronos-Signature'
+};
+
+// The app signs the raw body with HMAC-SHA256; compare in constant time so the check leaks nothing.
+const verifySignature = (body, header) => {
+  const expected = Buffer.from(`sha256=${createHmac('sha256', SECRET).update(body).digest('hex')}`);
+  const received = Buffer.from(header || '');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+};
+
+const summarize = (payload) => JSON.stringify(payload, (key, value) =>
+  typeof value === 'string' && value.startsWith('data:') ? `<${value.length} byte data URL>` : value, 2);
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405, CORS_HEADERS).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    const deliveryId = req.headers['x-chronos-delivery'] || '-';
+    const attempt = (attemptsById.get(deliveryId) || 0) + 1;
+    attemptsById.set(deliveryId, attempt);
+
+    if (SECRET && !verifySignature(body, req.headers['x-chronos-signature'])) {
+      console.log(`[${new Date().toISOString()}] ${req.headers['x-chronos-event']} ${deliveryId} attempt ${attempt} -> 401 (bad signature)`);
+      res.writeHead(401, CORS_HEADERS).end();
+      return;
+    }
+
+    if (attempt <= FAIL_FIRST) {
+      console.log(`[${new Date().toISOString()}] ${req.headers['x-chronos-event']} ${deliveryId} attempt ${attempt} -> 503 (simulated)`);
+      res.writeHead(503, CORS_HEADERS).end();
+      return;
+    }
+
+    try {
+      const payload = JSON.parse(body);
+      const signed = SECRET ? ' (signature verified)' : req.headers['x-chronos-signature'] ? ' (signature not checked, SECRET unset)' : '';
+      console.log(`[${new Date().toISOString()}] ${req.headers['x-chronos-event']} ${deliveryId} attempt ${attempt} -> 200${signed}`);
+      console.log(summarize(payload));
+      res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' }).end('{"ok":true}');
+    } catch {
+      console.log(`[${new Date().toISOString()}] invalid JSON body -> 400`);
+      res.writeHead(400, CORS_HEADERS).end();
+    }
+  });
+}).listen(PORT, () => console.log(`Webhook receiver listening on http://localhost:${PORT}/webhook`));
@@ -0,0 +1,143 @@
+import { Alert, AlertRule, AlertTrigger, CapturedImage, HealthStatus } from "../types";
+import { isLowConfidence } from "./confidenceService";
+import { projectIdOf } from "./projectService";
+import { generateSpeech, decodeAudio, decodeAudioData } from "./geminiService";
+
+// --- Configuration Constants ---
+export const ALERT_TRIGGER_LABELS: Record<AlertTrigger, string> = {
+  'health-change': 'Health Change',
+  'event-tag': 'Event Tag',
+  'consecutive-stressed': 'Stress Streak',
+  'camera-offline': 'Camera Offline'
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: 'rule-health', trigger: 'health-change', enabled: true, statuses: ['STRESSED', 'CRITICAL'], cooldownMinutes: 0, notify: true, speak: false },
+  { id: 'rule-pest', trigger: 'event-tag', enabled: true, tags: ['pest'], cooldownMinutes: 360, notify: true, speak: false },
+  { id: 'rule-streak', trigger: 'consecutive-stressed', enabled: false, count: 3, cooldownMinutes: 0, notify: true, speak: false },
+  { id: 'rule-offline', trigger: 'camera-offline', enabled: true, cooldownMinutes: 30, notify: true, speak: false }
+];
+
+const SPEECH_SAMPLE_RATE = 24000;
+
+// --- Helpers ---
+
+export const createAlert = (entry: Omit<Alert, 'id' | 'timestamp'>, timestamp = Date.now()): Alert => ({
+  id: `alert-${timestamp}-${Math.random().toString(36).slice(2, 6)}`,
+  timestamp,
+  ...entry
+});
+
+export const createAlertRule = (trigger: AlertTrigger): AlertRule => ({
+  ...DEFAULT_ALERT_RULES.find(r => r.trigger === trigger)!,
+  id: `rule-${Date.now()}`,
+  enabled: true
+});
+
+const severityOf = (status: HealthStatus) => status === 'CRITICAL' ? 'critical' as const : 'warning' as const;
+
+const isStressed = (img: CapturedImage) => img.healthStatus === 'STRESSED' || img.healthStatus === 'CRITICAL';
+
+const isCoolingDown = (rule: AlertRule, projectId: string, recent: Alert[], now: number) =>
+  rule.cooldownMinutes > 0 && recent.some(a =>
+    a.ruleId === rule.id && projectIdOf(a) === projectId && now - a.timestamp < rule.cooldownMinutes * 60000);
+
+export const describeRule = (rule: AlertRule) => {
+  switch (rule.trigger) {
+    case 'health-change': return `Frame turns ${(rule.statuses || []).join(' or ') || '-'}`;
+    case 'event-tag': return `Tags contain ${(rule.tags || []).join(', ') || '-'}`;
+    case 'consecutive-stressed': return `${rule.count ?? 3} stressed frames in a row`;
+    case 'camera-offline': return 'Camera stream lost while monitoring';
+  }
+};
+
+// --- Evaluation ---
+
+// Checks a freshly analysed frame against the rules. `history` is its project's timeline; low-confidence
+// frames are ignored, and only the newest frame raises alerts so re-analysing the archive stays quiet.
+export const evaluateFrame = (
+  rules: AlertRule[],
+  frame: CapturedImage,
+  history: CapturedImage[],
+  minConfidenceThreshold: number,
+  label: string,
+  recent: Alert[],
+  now = Date.now()
+): Alert[] => {
+  const status = frame.healthStatus;
+  if (!status || isLowConfidence(frame, minConfidenceThreshold)) return [];
+  if (history.some(f => f.timestamp > frame.timestamp)) return [];
+
+  const earlier = history.filter(f => f.id !== frame.id && f.healthStatus && !isLowConfidence(f, minConfidenceThreshold));
+  const previous = earlier[earlier.length - 1];
+  const projectId = projectIdOf(frame);
+
+  return rules.filter(r => r.enabled && !isCoolingDown(r, projectId, recent, now)).flatMap(rule => {
+    const base = { ruleId: rule.id, trigger: rule.trigger, frameId: frame.id, projectId };
+    switch (rule.trigger) {
+      case 'health-change': {
+        if (!(rule.statuses || []).includes(status) || previous?.healthStatus === status) return [];
+        return [{ ...base, severity: severityOf(status), message: `${label} is ${status}${previous ? ` (was ${previous.healthStatus})` : ''}. ${frame.advice || ''}`.trim() }];
+      }
+      case 'event-tag': {
+        const wanted = (rule.tags || []).map(t => t.toLowerCase()).filter(Boolean);
+        const matched = (frame.eventTags || []).filter(t => wanted.some(w => t.toLowerCase().includes(w)));
+        if (matched.length === 0) return [];
+        return [{ ...base, severity: severityOf(status), message: `${label} tagged ${matched.join(', ')}.` }];
+      }
+      case 'consecutive-stressed': {
+        // Fires once when the streak reaches the count, not on every frame after it.
+        const count = Math.max(1, rule.count ?? 3);
+        const firstCalm = [...earlier].reverse().findIndex(f => !isStressed(f));
+        const streak = isStressed(frame) ? 1 + (firstCalm === -1 ? earlier.length : firstCalm) : 0;
+        if (streak !== count) return [];
+        return [{ ...base, severity: severityOf(status), message: `${label} has been stressed for ${count} frames in a row.` }];
+      }
+      default:
+        return [];
+    }
+  }).map(entry => createAlert(entry, now));
+};
+
+export const evaluateCameraOffline = (
+  rules: AlertRule[],
+  projectId: string,
+  label: string,
+  detail: string,
+  recent: Alert[],
+  now = Date.now()
+): Alert[] =>
+  rules
+    .filter(r => r.enabled && r.trigger === 'camera-offline' && !isCoolingDown(r, projectId, recent, now))
+    .map(rule => createAlert({ ruleId: rule.id, trigger: rule.trigger, severity: 'critical', message: `${label} camera offline: ${detail}`, projectId }, now));
+
+// --- Delivery ---
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async () =>
+  notificationsSupported() ? Notification.requestPermission() : 'denied';
+
+export const showNotification = (alert: Alert) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  new Notification(`Chronos Gaia // ${alert.severity.toUpperCase()}`, { body: alert.message, tag: `${alert.ruleId}-${alert.projectId || ''}` });
+};
+
+// One shared output context; browsers cap how many can be open at once.
+let speechContext: AudioContext | null = null;
+
+export const speakAlert = async (alert: Alert) => {
+  const base64 = await generateSpeech(`Warning. ${alert.message}`);
+  if (!base64) throw new Error("Speech Synthesis Failed. No audio returned.");
+  if (!speechContext) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    speechContext = new AudioContextClass({ sampleRate: SPEECH_SAMPLE_RATE });
+  }
+  const ctx = speechContext;
+  if (ctx.state === 'suspended') await ctx.resume();
+  const buffer = await decodeAudioData(decodeAudio(base64), ctx, SPEECH_SAMPLE_RATE);
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(ctx.destination);
+  source.start();
+};
@@ -0,0 +1,154 @@
+import { CapturedImage, FrameAlignment } from "../types";
+import { loadImage } from "./imageService";
+
+// --- Configuration Constants ---
+const COARSE_WIDTH = 64;   // Exhaustive search runs on a tiny edge map...
+const FINE_WIDTH = 192;    // ...then a local refinement runs at a higher resolution.
+const MAX_SHIFT = 0.08;    // Fraction of the frame; a phone on a stand rarely drifts further
+const MAX_ROTATION = 3;    // Degrees
+const COARSE_ROTATION_STEP = 0.5;
+const FINE_ROTATION_STEP = 0.125;
+const MIN_OVERLAP = 0.6;   // Candidates that leave less of the frame overlapping are rejected
+
+interface EdgeMap {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+export interface AlignmentReference {
+  id: string;
+  coarse: EdgeMap;
+  fine: EdgeMap;
+}
+
+// --- Helpers ---
+
+// Gradient magnitude normalised by its mean, so day/night exposure changes do not dominate the match.
+const buildEdgeMap = (img: HTMLImageElement, width: number): EdgeMap => {
+  const height = Math.max(1, Math.round(width * img.naturalHeight / img.naturalWidth));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas rendering unavailable.");
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) luma[i] = 0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2];
+
+  const edges = new Float32Array(width * height);
+  let sum = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const e = Math.abs(luma[i + 1] - luma[i - 1]) + Math.abs(luma[i + width] - luma[i - width]);
+      edges[i] = e;
+      sum += e;
+    }
+  }
+  const mean = sum / edges.length || 1;
+  for (let i = 0; i < edges.length; i++) edges[i] /= mean;
+  return { data: edges, width, height };
+};
+
+// Mean absolute difference between the reference and the target warped by (tx, ty, theta), sampled
+// nearest-neighbour. The warp maps target point q to R(theta)(q - c) + c + t, matching how it is rendered.
+const matchCost = (ref: EdgeMap, target: EdgeMap, tx: number, ty: number, theta: number) => {
+  const { width, height } = ref;
+  const cos = Math.cos(theta), sin = Math.sin(theta);
+  const cx = width / 2, cy = height / 2;
+  let sum = 0;
+  let n = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = x - cx - tx, py = y - cy - ty;
+      const qx = Math.round(cos * px + sin * py + cx);
+      const qy = Math.round(-sin * px + cos * py + cy);
+      if (qx < 0 || qy < 0 || qx >= width || qy >= height) continue;
+      sum += Math.abs(ref.data[y * width + x] - target.data[qy * width + qx]);
+      n++;
+    }
+  }
+  return n < width * height * MIN_OVERLAP ? Infinity : sum / n;
+};
+
+const searchBest = (ref: EdgeMap, target: EdgeMap, shifts: { x: number[]; y: number[] }, rotations: number[]) => {
+  let best = { tx: 0, ty: 0, rotation: 0, cost: Infinity };
+  for (const rotation of rotations) {
+    const theta = rotation * Math.PI / 180;
+    for (const ty of shifts.y) {
+      for (const tx of shifts.x) {
+        const cost = matchCost(ref, target, tx, ty, theta);
+        if (cost < best.cost) best = { tx, ty, rotation, cost };
+      }
+    }
+  }
+  return best;
+};
+
+const range = (center: number, radius: number, step: number) => {
+  const values: number[] = [];
+  for (let v = center - radius; v <= center + radius + 1e-9; v += step) values.push(Math.round(v * 1000) / 1000);
+  return values;
+};
+
+// --- Alignment API ---
+
+export const prepareReference = async (reference: CapturedImage): Promise<AlignmentReference> => {
+  const img = await loadImage(reference.dataUrl);
+  return { id: reference.id, coarse: buildEdgeMap(img, COARSE_WIDTH), fine: buildEdgeMap(img, FINE_WIDTH) };
+};
+
+// Estimates the translation and rotation that register `src` onto the reference. Runs fully on-device.
+export const estimateAlignment = async (reference: AlignmentReference, src: string): Promise<FrameAlignment> => {
+  const img = await loadImage(src);
+  const coarse = buildEdgeMap(img, COARSE_WIDTH);
+  if (coarse.height !== reference.coarse.height) throw new Error("Alignment Failed. Frame aspect ratio differs from the reference.");
+  const fine = buildEdgeMap(img, FINE_WIDTH);
+
+  const maxX = Math.ceil(MAX_SHIFT * coarse.width);
+  const maxY = Math.ceil(MAX_SHIFT * coarse.height);
+  const rough = searchBest(reference.coarse, coarse, { x: range(0, maxX, 1), y: range(0, maxY, 1) }, range(0, MAX_ROTATION, COARSE_ROTATION_STEP));
+
+  const scale = FINE_WIDTH / COARSE_WIDTH;
+  const refined = searchBest(
+    reference.fine,
+    fine,
+    { x: range(Math.round(rough.tx * scale), Math.ceil(scale), 1), y: range(Math.round(rough.ty * scale), Math.ceil(scale), 1) },
+    range(rough.rotation, COARSE_ROTATION_STEP / 2, FINE_ROTATION_STEP)
+  );
+  if (!isFinite(refined.cost)) throw new Error("Alignment Failed. No overlapping registration found.");
+
+  return {
+    referenceId: reference.id,
+    dx: Math.round(refined.tx / fine.width * 10000) / 10000,
+    dy: Math.round(refined.ty / fine.height * 10000) / 10000,
+    rotation: refined.rotation
+  };
+};
+
+// --- Rendering ---
+
+// CSS transform for an element showing the frame at the given rendered content size.
+export const alignmentCssTransform = (alignment: FrameAlignment | undefined, width: number, height: number) =>
+  alignment ? `translate(${alignment.dx * width}px, ${alignment.dy * height}px) rotate(${alignment.rotation}deg)` : undefined;
+
+// Draws the frame into the given box with its alignment applied; the original pixels are never modified.
+export const drawAligned = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  x: number, y: number, w: number, h: number,
+  alignment?: FrameAlignment
+) => {
+  if (!alignment) {
+    ctx.drawImage(img, x, y, w, h);
+    return;
+  }
+  ctx.save();
+  ctx.translate(x + w / 2 + alignment.dx * w, y + h / 2 + alignment.dy * h);
+  ctx.rotate(alignment.rotation * Math.PI / 180);
+  ctx.drawImage(img, -w / 2, -h / 2, w, h);
+  ctx.restore();
+};
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { hasVideoFrame } from './cameraControlService';
+import { createLogEntry, summarizeCaptureHealth } from './captureHealthService';
+
+// HTMLMediaElement ready states: HAVE_NOTHING 0, HAVE_METADATA 1, HAVE_CURRENT_DATA 2.
+const video = (readyState: number, videoWidth: number) => ({ readyState, videoWidth, HAVE_CURRENT_DATA: 2 as const });
+
+describe('hasVideoFrame', () => {
+  it('skips a feed that is powered off', () => {
+    expect(hasVideoFrame(video(0, 0))).toBe(false);
+  });
+
+  it('skips a stream that has metadata but no decoded frame yet', () => {
+    expect(hasVideoFrame(video(1, 1280))).toBe(false);
+  });
+
+  it('skips a frame without dimensions', () => {
+    expect(hasVideoFrame(video(2, 0))).toBe(false);
+  });
+
+  it('captures once a frame is decoded', () => {
+    expect(hasVideoFrame(video(2, 1280))).toBe(true);
+    expect(hasVideoFrame(video(4, 1920))).toBe(true);
+  });
+});
+
+describe('a slot skipped for lack of a frame', () => {
+  it('is logged as rejected and not counted as an on-time capture', () => {
+    const log = [
+      createLogEntry({ kind: 'capture', plannedAt: 1000, delayMs: 0, projectId: 'p' }, 1000),
+      createLogEntry({ kind: 'rejected', plannedAt: 2000, detail: 'camera unavailable', projectId: 'p' }, 2000)
+    ];
+    expect(summarizeCaptureHealth(log, 3000, true)).toMatchObject({ captures: 1, onTimeRate: 100 });
+  });
+});
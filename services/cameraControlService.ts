@@ -0,0 +1,184 @@
+import { CameraControls } from "../types";
+
+// --- Configuration Constants ---
+export const AUTO_FLASH_BRIGHTNESS = 25; // Mean luminance (0-100) below which auto flash fires
+const METER_WIDTH = 32;                  // Metering only needs a coarse thumbnail
+const SETTLE_POLL_MS = 100;
+const SETTLE_MIN_MS = 300;               // Torches ramp up over a few frames before metering means anything
+const SETTLE_MAX_MS = 2000;
+const SETTLE_TOLERANCE = 1.5;            // Brightness points between polls that count as settled
+
+// --- Types ---
+
+export interface ControlRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// The subset of MediaTrackCapabilities used for photometric locking; absent keys are unsupported.
+export interface CameraCapabilities {
+  exposureModes: string[];
+  focusModes: string[];
+  whiteBalanceModes: string[];
+  exposureTime?: ControlRange;
+  exposureCompensation?: ControlRange;
+  iso?: ControlRange;
+  focusDistance?: ControlRange;
+  colorTemperature?: ControlRange;
+  zoom?: ControlRange;
+  torch: boolean;
+}
+
+export type ControlGroup = 'exposure' | 'focus' | 'whiteBalance';
+
+export type RangeControl = 'exposureTime' | 'exposureCompensation' | 'iso' | 'focusDistance' | 'colorTemperature' | 'zoom';
+
+// Image Capture extensions to the media track dictionaries; lib.dom does not declare them yet.
+interface SteppedRange extends DoubleRange {
+  step?: number;
+}
+
+type CameraTrackCapabilities = MediaTrackCapabilities & Partial<Record<RangeControl, SteppedRange>> & {
+  exposureMode?: string[];
+  focusMode?: string[];
+  whiteBalanceMode?: string[];
+  torch?: boolean;
+};
+
+export type CameraTrackSettings = MediaTrackSettings & Partial<Record<RangeControl, number>> & {
+  exposureMode?: string;
+  focusMode?: string;
+  whiteBalanceMode?: string;
+  torch?: boolean;
+};
+
+type CameraConstraintSet = MediaTrackConstraintSet & Partial<Record<RangeControl, number>> & {
+  exposureMode?: string;
+  focusMode?: string;
+  whiteBalanceMode?: string;
+  torch?: boolean;
+};
+
+export const DEFAULT_CAMERA_CONTROLS: CameraControls = {
+  exposureMode: 'continuous',
+  focusMode: 'continuous',
+  whiteBalanceMode: 'continuous'
+};
+
+// --- Helpers ---
+
+const RANGE_KEYS: RangeControl[] = ['exposureTime', 'exposureCompensation', 'iso', 'focusDistance', 'colorTemperature', 'zoom'];
+
+const toRange = (cap?: SteppedRange): ControlRange | undefined =>
+  cap && typeof cap.min === 'number' && typeof cap.max === 'number' && cap.max > cap.min
+    ? { min: cap.min, max: cap.max, step: cap.step || (cap.max - cap.min) / 100 }
+    : undefined;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const clamp = (value: number, range: ControlRange) => Math.min(range.max, Math.max(range.min, value));
+
+// --- Control API ---
+
+export const readCapabilities = (track: MediaStreamTrack): CameraCapabilities => {
+  const caps: CameraTrackCapabilities = track.getCapabilities ? track.getCapabilities() : {};
+  const result: CameraCapabilities = {
+    exposureModes: caps.exposureMode || [],
+    focusModes: caps.focusMode || [],
+    whiteBalanceModes: caps.whiteBalanceMode || [],
+    torch: !!caps.torch
+  };
+  RANGE_KEYS.forEach(key => { result[key] = toRange(caps[key]); });
+  return result;
+};
+
+// Builds the constraint set for the supported subset of the controls, clamped to the device ranges.
+// Manual values are only sent alongside their manual mode, which is what locks them on most devices.
+export const buildConstraints = (controls: CameraControls, caps: CameraCapabilities) => {
+  const set: CameraConstraintSet = {};
+  const modes = [
+    { key: 'exposureMode', mode: controls.exposureMode, supported: caps.exposureModes, values: ['exposureTime', 'iso'] },
+    { key: 'focusMode', mode: controls.focusMode, supported: caps.focusModes, values: ['focusDistance'] },
+    { key: 'whiteBalanceMode', mode: controls.whiteBalanceMode, supported: caps.whiteBalanceModes, values: ['colorTemperature'] }
+  ] as const;
+
+  modes.forEach(({ key, mode, supported, values }) => {
+    if (!supported.includes(mode)) return;
+    set[key] = mode;
+    if (mode !== 'manual') return;
+    values.forEach(v => {
+      const value = controls[v];
+      const range = caps[v];
+      if (typeof value === 'number' && range) set[v] = clamp(value, range);
+    });
+  });
+  if (typeof controls.exposureCompensation === 'number' && caps.exposureCompensation) set.exposureCompensation = clamp(controls.exposureCompensation, caps.exposureCompensation);
+  if (typeof controls.zoom === 'number' && caps.zoom) set.zoom = clamp(controls.zoom, caps.zoom);
+  return set;
+};
+
+// applyConstraints replaces the previous advanced set, so the torch state travels with the controls.
+export const applyCameraControls = async (track: MediaStreamTrack, controls: CameraControls, caps: CameraCapabilities, torch = false) => {
+  const constraints: CameraConstraintSet = { ...buildConstraints(controls, caps), ...(caps.torch ? { torch } : {}) };
+  if (Object.keys(constraints).length === 0) return;
+  await track.applyConstraints({ advanced: [constraints] });
+};
+
+export const readSettings = (track: MediaStreamTrack): CameraTrackSettings => track.getSettings();
+
+// Freezes whatever the automatic modes have currently settled on, so later captures match this one.
+export const lockCurrentSettings = (
+  track: MediaStreamTrack,
+  caps: CameraCapabilities,
+  controls: CameraControls,
+  groups: ControlGroup[] = ['exposure', 'focus', 'whiteBalance']
+): CameraControls => {
+  const current = readSettings(track);
+  const locked = { ...controls };
+  if (groups.includes('exposure') && caps.exposureModes.includes('manual')) {
+    Object.assign(locked, { exposureMode: 'manual', exposureTime: current.exposureTime ?? controls.exposureTime, iso: current.iso ?? controls.iso });
+  }
+  if (groups.includes('focus') && caps.focusModes.includes('manual')) {
+    Object.assign(locked, { focusMode: 'manual', focusDistance: current.focusDistance ?? controls.focusDistance });
+  }
+  if (groups.includes('whiteBalance') && caps.whiteBalanceModes.includes('manual')) {
+    Object.assign(locked, { whiteBalanceMode: 'manual', colorTemperature: current.colorTemperature ?? controls.colorTemperature });
+  }
+  return locked;
+};
+
+// --- Metering ---
+
+// A stream that is off or still starting has no image yet; drawing it would store an empty or black frame.
+export const hasVideoFrame = (video: Pick<HTMLVideoElement, 'readyState' | 'videoWidth' | 'HAVE_CURRENT_DATA'>) =>
+  video.readyState >= video.HAVE_CURRENT_DATA && video.videoWidth > 0;
+
+// Mean luminance (0-100) of a normalised crop of the live video, on the same scale as frame quality brightness.
+export const meterBrightness = (video: HTMLVideoElement, crop = { x: 0, y: 0, width: 1, height: 1 }) => {
+  const sw = Math.max(1, crop.width * video.videoWidth);
+  const sh = Math.max(1, crop.height * video.videoHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = METER_WIDTH;
+  canvas.height = Math.max(1, Math.round(METER_WIDTH * sh / sw));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas rendering unavailable.");
+  ctx.drawImage(video, crop.x * video.videoWidth, crop.y * video.videoHeight, sw, sh, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) sum += 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+  return sum / (data.length / 4) / 255 * 100;
+};
+
+// Waits until consecutive meter readings stop changing, i.e. auto exposure has adapted to the new light.
+export const waitForExposure = async (meter: () => number) => {
+  const started = Date.now();
+  await sleep(SETTLE_MIN_MS);
+  let previous = meter();
+  while (Date.now() - started < SETTLE_MAX_MS) {
+    await sleep(SETTLE_POLL_MS);
+    const current = meter();
+    if (Math.abs(current - previous) <= SETTLE_TOLERANCE) return;
+    previous = current;
+  }
+};
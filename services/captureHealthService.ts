@@ -0,0 +1,77 @@
+import { CaptureLogEntry } from "../types";
+import { LATE_CAPTURE_MS } from "./schedulerService";
+import { projectIdOf } from "./projectService";
+
+export interface CaptureGap {
+  start: number;
+  end: number;
+  missedSlots: number;
+}
+
+export interface CaptureHealthSummary {
+  uptimeMs: number;
+  sessions: number;
+  captures: number;
+  lateCaptures: number;
+  missedSlots: number;
+  onTimeRate: number | null; // 0-100; null until a scheduled capture exists
+  gaps: CaptureGap[];
+  wakeLock: string | null;   // Latest reported wake lock state
+}
+
+export const createLogEntry = (entry: Omit<CaptureLogEntry, 'id' | 'timestamp'>, timestamp = Date.now()): CaptureLogEntry => ({
+  id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+  timestamp,
+  ...entry
+});
+
+export const isLateCapture = (entry: CaptureLogEntry) =>
+  entry.kind === 'capture' && (entry.delayMs ?? 0) > LATE_CAPTURE_MS;
+
+// Session, wake-lock and visibility events are shared by every project; capture outcomes belong to one.
+export const isOwnedEntry = (entry: CaptureLogEntry, projectId: string) =>
+  ['capture', 'rejected', 'gap'].includes(entry.kind) && projectIdOf(entry) === projectId;
+
+export const logForProject = (log: CaptureLogEntry[], projectId: string) =>
+  log.filter(e => !['capture', 'rejected', 'gap'].includes(e.kind) || isOwnedEntry(e, projectId));
+
+// Sessions left open by a closed tab end at their last logged event; the running session ends now.
+export const summarizeCaptureHealth = (log: CaptureLogEntry[], now: number, active: boolean): CaptureHealthSummary => {
+  let uptimeMs = 0;
+  let sessions = 0;
+  let openedAt: number | null = null;
+  let lastSeen = 0;
+  let wakeLock: string | null = null;
+
+  for (const entry of log) {
+    if (entry.kind === 'session-start') {
+      if (openedAt !== null) uptimeMs += lastSeen - openedAt;
+      openedAt = entry.timestamp;
+      sessions++;
+    } else if (entry.kind === 'session-stop' && openedAt !== null) {
+      uptimeMs += entry.timestamp - openedAt;
+      openedAt = null;
+    } else if (entry.kind === 'wake-lock') {
+      wakeLock = entry.detail || null;
+    }
+    lastSeen = entry.timestamp;
+  }
+  if (openedAt !== null) uptimeMs += (active ? now : lastSeen) - openedAt;
+
+  const captures = log.filter(e => e.kind === 'capture');
+  const lateCaptures = captures.filter(isLateCapture).length;
+  const gaps = log
+    .filter(e => e.kind === 'gap')
+    .map(e => ({ start: e.gapStart ?? e.timestamp, end: e.timestamp, missedSlots: e.missedSlots ?? 0 }));
+
+  return {
+    uptimeMs,
+    sessions,
+    captures: captures.length,
+    lateCaptures,
+    missedSlots: gaps.reduce((sum, g) => sum + g.missedSlots, 0),
+    onTimeRate: captures.length > 0 ? Math.round((captures.length - lateCaptures) / captures.length * 100) : null,
+    gaps,
+    wakeLock
+  };
+};
@@ -0,0 +1,46 @@
+import { CareEvent, CareEventType } from "../types";
+
+// --- Configuration Constants ---
+export const CARE_EVENT_LABELS: Record<CareEventType, string> = {
+  water: 'WATER',
+  nutrient: 'NUTRIENT',
+  prune: 'PRUNE',
+  repot: 'REPOT',
+  'pest-treatment': 'PEST TREATMENT',
+  other: 'CARE'
+};
+
+// Chart marker colours, one per type so a watering is told apart from a treatment at a glance.
+export const CARE_EVENT_COLORS: Record<CareEventType, string> = {
+  water: '#38bdf8',
+  nutrient: '#a78bfa',
+  prune: '#fb923c',
+  repot: '#d97706',
+  'pest-treatment': '#f87171',
+  other: '#9ca3af'
+};
+
+// --- Helpers ---
+
+export const createCareEvent = (entry: Omit<CareEvent, 'id'>): CareEvent => ({
+  id: `care-${entry.timestamp}-${Math.random().toString(36).slice(2, 6)}`,
+  ...entry
+});
+
+// Short human-readable summary, e.g. "WATER 250 ml" or "PEST TREATMENT neem oil".
+export const describeCareEvent = (event: CareEvent) => [
+  CARE_EVENT_LABELS[event.type],
+  event.amountMl !== undefined ? `${event.amountMl} ml` : '',
+  event.product || ''
+].filter(Boolean).join(' ');
+
+// One log line per event, in the same pipe-separated shape as frame lines so the model reads them as one sequence.
+export const careEventLine = (event: CareEvent) =>
+  `${new Date(event.timestamp).toISOString()} | CARE=${describeCareEvent(event)}${event.notes ? ` | ${event.notes}` : ''}`;
+
+export const careEventsInRange = (events: CareEvent[], start: number, end: number) =>
+  events.filter(e => e.timestamp >= start && e.timestamp <= end);
+
+// Chart annotations for TimeSeriesChart and the dashboard lanes.
+export const careEventMarkers = (events: CareEvent[]) =>
+  events.map(e => ({ id: e.id, timestamp: e.timestamp, label: describeCareEvent(e), color: CARE_EVENT_COLORS[e.type] }));
@@ -0,0 +1,48 @@
+import { CapturedImage, SnapshotAnalysis } from "../types";
+import { analyzeImage } from "./geminiService";
+
+const SECOND_OPINION_PROMPT = "Analyze this plant snapshot. A previous assessment of this frame was uncertain, so inspect leaves, stems and soil closely before deciding. Assess health, growth stage, notable events and give one piece of care advice. Report honest confidence.";
+
+// --- Classification ---
+
+export const isLowConfidence = (img: CapturedImage, threshold: number) =>
+  img.analysisStatus !== 'failed' && typeof img.confidence === 'number' && img.confidence < threshold;
+
+// Frames whose analysis can be trusted for reports, health tracking and alerts.
+export const getReliableFrames = (images: CapturedImage[], threshold: number) =>
+  images.filter(img => !!img.healthStatus && img.analysisStatus !== 'failed' && !isLowConfidence(img, threshold));
+
+// Human-readable explanation shown wherever a frame is down-weighted; null when the frame counts.
+export const getDownweightReason = (img: CapturedImage, threshold: number): string | null => {
+  if (img.analysisStatus === 'failed') return `Analysis failed: ${img.analysisError || 'unknown error'}. Excluded from reports and health tracking.`;
+  if (!isLowConfidence(img, threshold)) return null;
+  const retried = (img.analysisAttempts || 1) > 1 ? ' even after a second opinion' : '';
+  return `Confidence ${img.confidence}% is below the ${threshold}% threshold${retried}. Excluded from reports and health tracking.`;
+};
+
+// Latest trusted health reading; low-confidence frames never move the plant into a new state.
+export const getCurrentHealth = (images: CapturedImage[], threshold: number) => {
+  const reliable = getReliableFrames(images, threshold);
+  return reliable.length > 0 ? reliable[reliable.length - 1].healthStatus : undefined;
+};
+
+// --- Pipeline ---
+
+// Re-queues an uncertain analysis once for a second opinion and keeps whichever result is more confident.
+export const analyzeWithSecondOpinion = async (
+  dataUrl: string,
+  threshold: number,
+  plantContext?: string
+): Promise<SnapshotAnalysis & { analysisAttempts: number }> => {
+  const first = await analyzeImage(dataUrl, undefined, plantContext);
+  if (first.confidence >= threshold) return { ...first, analysisAttempts: 1 };
+
+  try {
+    const second = await analyzeImage(dataUrl, SECOND_OPINION_PROMPT, plantContext);
+    const best = second.confidence > first.confidence ? second : first;
+    return { ...best, analysisAttempts: 2 };
+  } catch (e) {
+    console.warn("Second opinion failed, keeping first analysis", e);
+    return { ...first, analysisAttempts: 2 };
+  }
+};
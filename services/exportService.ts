@@ -0,0 +1,184 @@
+import { GIFEncoder, quantize, applyPalette } from 'gifenc';
+import { CapturedImage, MonitorSettings } from "../types";
+import { drawAligned } from "./alignmentService";
+import { loadImage } from "./imageService";
+
+// --- Types ---
+
+export type ExportFormat = 'webm' | 'mp4' | 'gif';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  fps: number;
+  width: number;
+  startIndex: number;
+  endIndex: number; // inclusive
+  burnTimestamp: boolean;
+  stabilize: boolean; // Apply each frame's stored alignment
+  timestampPrecision: MonitorSettings['timestampPrecision'];
+}
+
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+}
+
+// --- Configuration Constants ---
+const VIDEO_MIME_CANDIDATES: Record<'webm' | 'mp4', string[]> = {
+  webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1', 'video/mp4'],
+};
+const VIDEO_BITS_PER_PIXEL = 0.15; // Per frame; keeps 1080p around 10 Mbps at 30 FPS
+
+// --- Helpers ---
+
+export const formatTimestamp = (timestamp: number, precision: MonitorSettings['timestampPrecision']) => {
+  const d = new Date(timestamp);
+  const date = d.toLocaleDateString([], { year: 'numeric', month: '2-digit', day: '2-digit' });
+  const time = d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  if (precision === 'date') return date;
+  if (precision === 'time') return time;
+  return `${date} ${time}`;
+};
+
+const pickMimeType = (format: 'webm' | 'mp4') => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return VIDEO_MIME_CANDIDATES[format].find(m => MediaRecorder.isTypeSupported(m)) || null;
+};
+
+export const getSupportedFormats = (): ExportFormat[] => {
+  const formats: ExportFormat[] = [];
+  if (pickMimeType('webm')) formats.push('webm');
+  if (pickMimeType('mp4')) formats.push('mp4');
+  formats.push('gif');
+  return formats;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Letterboxes the frame into the canvas and optionally burns in the timestamp overlay.
+const drawFrame = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  frame: CapturedImage,
+  options: ExportOptions
+) => {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+
+  const scale = Math.min(width / img.naturalWidth, height / img.naturalHeight);
+  const w = img.naturalWidth * scale;
+  const h = img.naturalHeight * scale;
+  drawAligned(ctx, img, (width - w) / 2, (height - h) / 2, w, h, options.stabilize ? frame.alignment : undefined);
+
+  if (options.burnTimestamp) {
+    const label = formatTimestamp(frame.timestamp, options.timestampPrecision);
+    const fontSize = Math.max(12, Math.round(height * 0.04));
+    const pad = Math.round(fontSize * 0.6);
+    ctx.font = `bold ${fontSize}px "JetBrains Mono", monospace`;
+    const textWidth = ctx.measureText(label).width;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(pad, height - fontSize - pad * 3, textWidth + pad * 2, fontSize + pad * 2);
+    ctx.fillStyle = '#84cc16';
+    ctx.textBaseline = 'top';
+    ctx.fillText(label, pad * 2, height - fontSize - pad * 2);
+  }
+};
+
+// --- Encoders ---
+
+// MediaRecorder encodes in real time, so frames are pushed at the target FPS while the next one decodes.
+const encodeVideo = async (
+  frames: CapturedImage[],
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  options: ExportOptions,
+  mimeType: string,
+  onProgress?: (progress: number) => void
+) => {
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: Math.round(canvas.width * canvas.height * options.fps * VIDEO_BITS_PER_PIXEL),
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const frameMs = 1000 / options.fps;
+  recorder.start();
+  let next = loadImage(frames[0].dataUrl);
+  for (let i = 0; i < frames.length; i++) {
+    const started = performance.now();
+    const img = await next;
+    if (i + 1 < frames.length) next = loadImage(frames[i + 1].dataUrl);
+    drawFrame(ctx, img, frames[i], options);
+    track.requestFrame();
+    onProgress?.((i + 1) / frames.length);
+    await sleep(Math.max(0, frameMs - (performance.now() - started)));
+  }
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(t => t.stop());
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
+
+const encodeGif = async (
+  frames: CapturedImage[],
+  ctx: CanvasRenderingContext2D,
+  options: ExportOptions,
+  onProgress?: (progress: number) => void
+) => {
+  const { width, height } = ctx.canvas;
+  const gif = GIFEncoder();
+  const delay = Math.round(1000 / options.fps);
+
+  for (let i = 0; i < frames.length; i++) {
+    const img = await loadImage(frames[i].dataUrl);
+    drawFrame(ctx, img, frames[i], options);
+    const { data } = ctx.getImageData(0, 0, width, height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay });
+    onProgress?.((i + 1) / frames.length);
+    // Quantization is synchronous; yield so the progress bar can repaint.
+    await sleep(0);
+  }
+  gif.finish();
+
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+};
+
+// --- Export API ---
+
+export const exportTimelapse = async (
+  images: CapturedImage[],
+  options: ExportOptions,
+  onProgress?: (progress: number) => void
+): Promise<ExportResult> => {
+  const frames = images.slice(options.startIndex, options.endIndex + 1);
+  if (frames.length === 0) throw new Error("No frames in the selected range.");
+
+  // Output aspect ratio follows the first frame; encoders want even dimensions.
+  const first = await loadImage(frames[0].dataUrl);
+  const even = (n: number) => Math.max(2, Math.round(n / 2) * 2);
+  const canvas = document.createElement('canvas');
+  canvas.width = even(options.width);
+  canvas.height = even(options.width * first.naturalHeight / first.naturalWidth);
+  const ctx = canvas.getContext('2d', { willReadFrequently: options.format === 'gif' });
+  if (!ctx) throw new Error("Canvas rendering unavailable.");
+
+  let blob: Blob;
+  if (options.format === 'gif') {
+    blob = await encodeGif(frames, ctx, options, onProgress);
+  } else {
+    const mimeType = pickMimeType(options.format);
+    if (!mimeType) throw new Error(`${options.format.toUpperCase()} encoding is not supported by this browser.`);
+    blob = await encodeVideo(frames, canvas, ctx, options, mimeType, onProgress);
+  }
+
+  const stamp = new Date(frames[0].timestamp).toISOString().slice(0, 10);
+  return { blob, filename: `chronos-gaia-${stamp}-${frames.length}f.${options.format}` };
+};
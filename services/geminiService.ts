@@ -4,8 +4,11 @@ import {
   Modality, 
   LiveServerMessage, 
   Type,
-  FunctionDeclaration
+  FunctionDeclaration,
+  Schema,
+  GroundingMetadata
 } from "@google/genai";
+import { SnapshotAnalysis, HealthStatus, ChatMessage, TemporalComparison } from "../types";
 
 // --- Configuration Constants ---
 const MODEL_CHAT_PRO = 'gemini-3-pro-preview';
@@ -28,6 +31,138 @@ const captureSnapshotTool: FunctionDeclaration = {
   description: 'Capture a photo or snapshot of the current plant/environment immediately when the user asks to take a picture, scan, or capture.',
 };
 
+// --- Response Schemas ---
+const HEALTH_STATUSES: HealthStatus[] = ['HEALTHY', 'STRESSED', 'CRITICAL'];
+
+const snapshotAnalysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    analysis: { type: Type.STRING, description: 'Two to four sentence observation of the plant in this frame.' },
+    healthStatus: { type: Type.STRING, enum: HEALTH_STATUSES },
+    growthStage: { type: Type.STRING, description: 'Current growth stage, e.g. germination, seedling, vegetative, budding, flowering, fruiting.' },
+    eventTags: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Short lowercase tags for notable events, e.g. new-leaf, wilting, pest, yellowing.' },
+    advice: { type: Type.STRING, description: 'One actionable care recommendation.' },
+    confidence: { type: Type.INTEGER, minimum: 0, maximum: 100, description: 'Confidence in this assessment, 0-100.' }
+  },
+  required: ['analysis', 'healthStatus', 'growthStage', 'eventTags', 'advice', 'confidence'],
+  propertyOrdering: ['analysis', 'healthStatus', 'growthStage', 'eventTags', 'advice', 'confidence']
+};
+
+const SNAPSHOT_PROMPT = "Analyze this plant snapshot. Assess health, growth stage, notable events and give one piece of care advice.";
+
+// --- Validation Helpers ---
+// Responses are parsed as unknown and narrowed field by field; nothing reaches the app unchecked.
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isText = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+const isPercent = (v: unknown): v is number => typeof v === 'number' && v >= 0 && v <= 100;
+const isOneOf = <T extends string>(options: readonly T[], v: unknown): v is T =>
+  typeof v === 'string' && (options as readonly string[]).includes(v);
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(t => typeof t === 'string');
+
+const parseObject = (text: string | undefined, context: string): Record<string, unknown> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text || '');
+  } catch {
+    throw new Error(`${context} Malformed. Response was not valid JSON.`);
+  }
+  if (!isObject(data)) throw new Error(`${context} Malformed. Response was not a JSON object.`);
+  return data;
+};
+
+// Fields that failed validation are null; any null rejects the whole response instead of returning a partial result.
+const requireFields = <T extends object>(fields: { [K in keyof T]: T[K] | null }, context: string): T => {
+  const invalid = Object.entries(fields).filter(([, v]) => v === null).map(([k]) => k);
+  if (invalid.length > 0) throw new Error(`${context} Malformed. Invalid fields: ${invalid.join(', ')}.`);
+  return fields as T;
+};
+
+const validateSnapshotAnalysis = (text?: string): SnapshotAnalysis => {
+  const data = parseObject(text, 'Optical Analysis');
+  return requireFields<SnapshotAnalysis>({
+    analysis: isText(data.analysis) ? data.analysis.trim() : null,
+    healthStatus: isOneOf(HEALTH_STATUSES, data.healthStatus) ? data.healthStatus : null,
+    growthStage: isText(data.growthStage) ? data.growthStage.trim().toLowerCase() : null,
+    eventTags: isStringArray(data.eventTags) ? data.eventTags.map(t => t.trim().toLowerCase()).filter(Boolean) : null,
+    advice: isText(data.advice) ? data.advice.trim() : null,
+    confidence: isPercent(data.confidence) ? Math.round(data.confidence) : null
+  }, 'Optical Analysis');
+};
+
+const SIZE_TRENDS: TemporalComparison['sizeTrend'][] = ['GROWING', 'STABLE', 'SHRINKING'];
+const HEALTH_TRENDS: TemporalComparison['healthTrend'][] = ['IMPROVING', 'STABLE', 'DECLINING'];
+
+const temporalComparisonSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Three to five sentence comparison of how the plant changed across the sequence.' },
+    sizeTrend: { type: Type.STRING, enum: SIZE_TRENDS },
+    sizeChangePercent: { type: Type.NUMBER, description: 'Estimated change in visible plant size from first to last frame, in percent (negative when shrinking).' },
+    healthTrend: { type: Type.STRING, enum: HEALTH_TRENDS },
+    colorChange: { type: Type.STRING, description: 'Change in foliage color and turgor, e.g. wilting progression or recovery after watering.' },
+    stageTransitions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          fromStage: { type: Type.STRING },
+          toStage: { type: Type.STRING },
+          frameNumber: { type: Type.INTEGER, description: '1-based number of the frame where the new stage is first visible.' }
+        },
+        required: ['fromStage', 'toStage', 'frameNumber']
+      }
+    },
+    confidence: { type: Type.INTEGER, minimum: 0, maximum: 100 }
+  },
+  required: ['summary', 'sizeTrend', 'sizeChangePercent', 'healthTrend', 'colorChange', 'stageTransitions', 'confidence'],
+  propertyOrdering: ['summary', 'sizeTrend', 'sizeChangePercent', 'healthTrend', 'colorChange', 'stageTransitions', 'confidence']
+};
+
+const TEMPORAL_PROMPT = "These are snapshots of the same plant in chronological order, each labelled with its capture time. Compare them as a sequence: judge growth rate, change in size, change in color and health (wilting, yellowing, recovery) and any growth stage transitions. Refer to frames by their number.";
+
+const validateTemporalComparison = (text: string | undefined, frameIds: string[]): TemporalComparison => {
+  const data = parseObject(text, 'Temporal Analysis');
+
+  // Frame numbers are 1-based positions in the submitted sequence and are mapped back to frame ids.
+  const toTransition = (t: unknown) => {
+    if (!isObject(t) || !isText(t.fromStage) || !isText(t.toStage)) return null;
+    const n = t.frameNumber;
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < 1 || n > frameIds.length) return null;
+    return { fromStage: t.fromStage.trim().toLowerCase(), toStage: t.toStage.trim().toLowerCase(), frameId: frameIds[n - 1] };
+  };
+  const transitions = Array.isArray(data.stageTransitions) ? data.stageTransitions.map(toTransition) : null;
+
+  return requireFields<TemporalComparison>({
+    summary: isText(data.summary) ? data.summary.trim() : null,
+    sizeTrend: isOneOf(SIZE_TRENDS, data.sizeTrend) ? data.sizeTrend : null,
+    sizeChangePercent: typeof data.sizeChangePercent === 'number' ? Math.round(data.sizeChangePercent) : null,
+    healthTrend: isOneOf(HEALTH_TRENDS, data.healthTrend) ? data.healthTrend : null,
+    colorChange: isText(data.colorChange) ? data.colorChange.trim() : null,
+    stageTransitions: transitions && transitions.every(t => t !== null)
+      ? transitions.filter((t): t is NonNullable<typeof t> => t !== null)
+      : null,
+    confidence: isPercent(data.confidence) ? Math.round(data.confidence) : null
+  }, 'Temporal Analysis');
+};
+
+const CHAT_INSTRUCTION = "You are Gaia, an expert AI botanist. You monitor plant growth, diagnose health issues, and offer gardening advice.";
+const VISION_INSTRUCTION = "You are Gaia, an expert AI botanist assessing time-lapse snapshots of a single plant.";
+const LIVE_INSTRUCTION = "You are Gaia, an expert botanist AI assistant connected to a live video feed. Your job is to ANALYZE the plant life in the video in REAL-TIME. 1. Identify the plant and its current growth stage (germination, vegetative, flowering, etc.). 2. Detect any health issues like wilting, pests, or discoloration. 3. Provide immediate botanical advice to the user. Speak naturally and concisely.";
+
+const withPlantContext = (instruction: string, plantContext?: string) =>
+  plantContext ? `${instruction}\n\n${plantContext}` : instruction;
+
+// Grounds the chat in our own observation archive and asks for inline frame citations.
+const buildChatInstruction = (observationContext?: string, plantContext?: string) => {
+  const instruction = withPlantContext(CHAT_INSTRUCTION, plantContext);
+  if (!observationContext) return instruction;
+  return `${instruction}
+When a question concerns this grow's history, answer from the archive below. Cite every frame you rely on inline as [frame:<id>], exactly as written in the archive. If the archive does not contain the answer, say so.
+
+${observationContext}`;
+};
+
 // --- API Functions ---
 
 export const sendMessage = async (
@@ -36,7 +171,10 @@ export const sendMessage = async (
   useThinking: boolean = false,
   useSearch: boolean = false,
   useMaps: boolean = false,
-  location?: { lat: number; lng: number }
+  location?: { lat: number; lng: number },
+  attachments: { dataUrl: string; label: string }[] = [],
+  observationContext?: string,
+  plantContext?: string
 ) => {
   const ai = getAI();
   
@@ -70,7 +208,7 @@ export const sendMessage = async (
     model: modelName,
     config: {
       ...config,
-      systemInstruction: "You are Gaia, an expert AI botanist. You monitor plant growth, diagnose health issues, and offer gardening advice.",
+      systemInstruction: buildChatInstruction(observationContext, plantContext),
     },
     history: history.map(h => ({
       role: h.role === 'model' ? 'model' : 'user',
@@ -78,7 +216,16 @@ export const sendMessage = async (
     }))
   });
 
-  const response = await chat.sendMessage({ message: newMessage });
+  // Attached frames go in as labelled inline images ahead of the question so the model can refer to them.
+  const message = attachments.length === 0 ? newMessage : [
+    ...attachments.flatMap(a => [
+      { text: a.label },
+      { inlineData: { mimeType: 'image/jpeg', data: a.dataUrl.split(',')[1] } }
+    ]),
+    { text: newMessage }
+  ];
+
+  const response = await chat.sendMessage({ message });
   
   return {
     text: response.text,
@@ -86,8 +233,19 @@ export const sendMessage = async (
   };
 };
 
-export const analyzeImage = async (base64Data: string, prompt: string) => {
+// Flattens web and maps grounding chunks into de-duplicated citation links.
+export const extractGroundingUrls = (metadata?: GroundingMetadata): NonNullable<ChatMessage['groundingUrls']> => {
+  const seen = new Set<string>();
+  return (metadata?.groundingChunks || [])
+    .map(chunk => chunk.web || chunk.maps)
+    .filter((source): source is { uri: string; title?: string } => !!source?.uri)
+    .filter(source => !seen.has(source.uri) && !!seen.add(source.uri))
+    .map(source => ({ title: source.title, uri: source.uri }));
+};
+
+export const analyzeImage = async (base64Data: string, prompt: string = SNAPSHOT_PROMPT, plantContext?: string): Promise<SnapshotAnalysis> => {
   const ai = getAI();
+  let text: string | undefined;
   try {
     const cleanBase64 = base64Data.split(',')[1];
     const response = await ai.models.generateContent({
@@ -97,13 +255,49 @@ export const analyzeImage = async (base64Data: string, prompt: string) => {
           { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
           { text: prompt }
         ]
+      },
+      config: {
+        systemInstruction: withPlantContext(VISION_INSTRUCTION, plantContext),
+        responseMimeType: 'application/json',
+        responseSchema: snapshotAnalysisSchema
       }
     });
-    return response.text;
+    text = response.text;
   } catch (error) {
     console.error("Analysis Error:", error);
     throw new Error("Optical Analysis Failed. Check connection.");
   }
+  return validateSnapshotAnalysis(text);
+};
+
+// Sends an ordered frame sequence in one request; each image is preceded by its number, time and gap to the previous frame.
+export const analyzeTemporalSequence = async (
+  frames: { id: string; dataUrl: string; timestamp: number }[]
+): Promise<TemporalComparison> => {
+  const ai = getAI();
+  let text: string | undefined;
+  try {
+    const parts = frames.flatMap((f, i) => {
+      const gapHours = i > 0 ? ((f.timestamp - frames[i - 1].timestamp) / 3600000).toFixed(1) : null;
+      return [
+        { text: `Frame ${i + 1} of ${frames.length}, captured ${new Date(f.timestamp).toISOString()}${gapHours ? ` (${gapHours}h after frame ${i})` : ''}:` },
+        { inlineData: { mimeType: 'image/jpeg', data: f.dataUrl.split(',')[1] } }
+      ];
+    });
+    const response = await ai.models.generateContent({
+      model: MODEL_VISION,
+      contents: { parts: [...parts, { text: TEMPORAL_PROMPT }] },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: temporalComparisonSchema
+      }
+    });
+    text = response.text;
+  } catch (error) {
+    console.error("Temporal Analysis Error:", error);
+    throw new Error("Temporal Analysis Failed. Check connection.");
+  }
+  return validateTemporalComparison(text, frames.map(f => f.id));
 };
 
 export const generateGrowthReport = async (logs: string[]) => {
@@ -111,6 +305,7 @@ export const generateGrowthReport = async (logs: string[]) => {
   const prompt = `
   SYSTEM: You are Gaia, an expert AI Botanist.
   TASK: Analyze the following plant observation logs and generate a concise growth progress report. Highlight health status, growth rate, and any care recommendations.
+  CARE: Lines marked CARE= are grower actions (watering, feeding, pruning, treatments, repotting). Relate health changes in the frames that follow them to those actions where the timing supports it.
   TONE: Scientific, encouraging, precise.
   FORMAT: Plain text, no markdown symbols like ** or #.
   LOGS:
@@ -223,7 +418,8 @@ export const connectToLiveAPI = async (
   onClose: () => void,
   onError: (err: any) => void,
   onTranscript: (text: string, isUser: boolean) => void,
-  onCaptureTrigger?: () => void
+  onCaptureTrigger?: () => void,
+  plantContext?: string
 ) => {
   const ai = getAI();
   
@@ -276,7 +472,7 @@ export const connectToLiveAPI = async (
       speechConfig: {
         voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } // Kore has a gentle voice
       },
-      systemInstruction: "You are Gaia, an expert botanist AI assistant connected to a live video feed. Your job is to ANALYZE the plant life in the video in REAL-TIME. 1. Identify the plant and its current growth stage (germination, vegetative, flowering, etc.). 2. Detect any health issues like wilting, pests, or discoloration. 3. Provide immediate botanical advice to the user. Speak naturally and concisely.",
+      systemInstruction: withPlantContext(LIVE_INSTRUCTION, plantContext),
       tools: [{ functionDeclarations: [captureSnapshotTool] }]
     }
   });
@@ -0,0 +1,9 @@
+// --- Decoding ---
+
+// Decodes a data URL or restored object URL into an element canvases can draw from.
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Frame could not be decoded."));
+  img.src = src;
+});
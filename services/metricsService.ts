@@ -0,0 +1,75 @@
+import { FrameMetrics } from "../types";
+import { loadImage } from "./imageService";
+
+// --- Configuration Constants ---
+const ANALYSIS_WIDTH = 256; // Frames are downsampled before pixel analysis; ratios are resolution independent.
+const PLANT_HUE_MIN = 50;   // Degrees; yellow-green through blue-green counts as foliage
+const PLANT_HUE_MAX = 170;
+const PLANT_SAT_MIN = 0.18;
+const PLANT_VAL_MIN = 0.12;
+
+// --- Pixel Analysis ---
+
+const rgbToHsv = (r: number, g: number, b: number) => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const d = max - min;
+  let h = 0;
+  if (d > 0) {
+    if (max === r) h = 60 * (((g - b) / d) % 6);
+    else if (max === g) h = 60 * ((b - r) / d + 2);
+    else h = 60 * ((r - g) / d + 4);
+  }
+  if (h < 0) h += 360;
+  return { h, s: max === 0 ? 0 : d / max, v: max / 255 };
+};
+
+// Plant pixels are segmented by hue window plus an excess-green check (2G - R - B > 0),
+// which rejects grey and brown backgrounds that sit near the green hue range.
+export const computeMetricsFromPixels = (data: Uint8ClampedArray, width: number, height: number): FrameMetrics => {
+  const total = width * height;
+  let lumaSum = 0;
+  let plantPixels = 0;
+  let hueX = 0;
+  let hueY = 0;
+  let satSum = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    lumaSum += 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    const { h, s, v } = rgbToHsv(r, g, b);
+    if (h >= PLANT_HUE_MIN && h <= PLANT_HUE_MAX && s >= PLANT_SAT_MIN && v >= PLANT_VAL_MIN && 2 * g - r - b > 0) {
+      plantPixels++;
+      // Hue is circular, so it is averaged as a unit vector.
+      hueX += Math.cos(h * Math.PI / 180);
+      hueY += Math.sin(h * Math.PI / 180);
+      satSum += s;
+    }
+  }
+
+  let meanHue = 0;
+  if (plantPixels > 0) {
+    meanHue = Math.atan2(hueY, hueX) * 180 / Math.PI;
+    if (meanHue < 0) meanHue += 360;
+  }
+
+  return {
+    canopyCoverage: total > 0 ? Math.round(plantPixels / total * 10000) / 100 : 0,
+    meanHue: Math.round(meanHue),
+    meanSaturation: plantPixels > 0 ? Math.round(satSum / plantPixels * 100) : 0,
+    brightness: total > 0 ? Math.round(lumaSum / total / 255 * 100) : 0
+  };
+};
+
+// Runs entirely on-device; works with data URLs and restored object URLs alike.
+export const computeFrameMetrics = async (src: string): Promise<FrameMetrics> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = ANALYSIS_WIDTH;
+  canvas.height = Math.max(1, Math.round(ANALYSIS_WIDTH * img.naturalHeight / img.naturalWidth));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas rendering unavailable.");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return computeMetricsFromPixels(data, canvas.width, canvas.height);
+};
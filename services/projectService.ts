@@ -0,0 +1,60 @@
+import { MonitorSettings, Project } from "../types";
+import { DEFAULT_CAMERA_CONTROLS } from "./cameraControlService";
+
+// --- Configuration Constants ---
+export const DEFAULT_PROJECT_ID = 'default'; // Owns every record captured before projects existed
+
+// --- Projects ---
+
+export const createProject = (name: string, template?: Project): Project => ({
+  id: template ? Date.now().toString() : DEFAULT_PROJECT_ID,
+  name,
+  createdAt: Date.now(),
+  // A new project inherits the cadence it was created from, but not the camera-specific setup.
+  intervalHours: template?.intervalHours ?? 1.5,
+  schedule: template ? { ...template.schedule } : {
+    window: 'always',
+    startHour: 6,
+    endHour: 20,
+    activeDays: [0, 1, 2, 3, 4, 5, 6],
+    sunOffsetMinutes: 30,
+    catchUp: true
+  },
+  cameraControls: DEFAULT_CAMERA_CONTROLS,
+  regions: []
+});
+
+// The settings as they apply to one plant: its own overrides over the global defaults.
+export const resolveSettings = (project: Project, settings: MonitorSettings): MonitorSettings => ({ ...settings, ...project.settings });
+
+export const projectIdOf = (record: { projectId?: string }) => record.projectId ?? DEFAULT_PROJECT_ID;
+
+export const inProject = <T extends { projectId?: string }>(records: T[], projectId: string) =>
+  records.filter(r => projectIdOf(r) === projectId);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Profile block for system instructions; undefined until the grower has described the plant.
+export const buildPlantContext = (project: Project, now = Date.now()) => {
+  const lines: string[] = [];
+  if (project.species?.trim()) lines.push(`Species: ${project.species.trim()}`);
+  if (project.plantedAt) {
+    const days = Math.max(0, Math.floor((now - project.plantedAt) / DAY_MS));
+    lines.push(`Planted: ${new Date(project.plantedAt).toISOString().slice(0, 10)} (${days} days ago)`);
+  }
+  if (project.container?.trim()) lines.push(`Pot and medium: ${project.container.trim()}`);
+  if (project.notes?.trim()) lines.push(`Grower notes: ${project.notes.trim()}`);
+  if (lines.length === 0) return undefined;
+  return `PLANT PROFILE (${project.name})
+${lines.join('\n')}
+Judge growth stage, health and care needs against what is normal for this species at this age, and make every piece of advice specific to it.`;
+};
+
+// --- Devices ---
+
+// Labels are only filled in once camera permission has been granted, so callers re-list after the first stream.
+export const listVideoDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
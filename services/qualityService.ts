@@ -0,0 +1,107 @@
+import { FrameQuality, QualityIssue, QualityPolicy, QualitySettings } from "../types";
+import { loadImage } from "./imageService";
+
+// --- Configuration Constants ---
+const ANALYSIS_WIDTH = 256; // Sharpness is resolution dependent, so it is always measured at this width
+const HASH_WIDTH = 9;       // A 9x8 thumbnail yields 8x8 horizontal differences = 64 bits
+const HASH_HEIGHT = 8;
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssue, string> = {
+  dark: 'DARK',
+  overexposed: 'OVEREXPOSED',
+  blurry: 'BLURRY',
+  duplicate: 'DUPLICATE'
+};
+
+// --- Helpers ---
+
+const readLuma = (img: HTMLImageElement, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas rendering unavailable.");
+  ctx.drawImage(img, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) luma[i] = 0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2];
+  return luma;
+};
+
+// Variance of the 4-neighbour Laplacian; low values mean few sharp edges.
+const laplacianVariance = (luma: Float32Array, width: number, height: number) => {
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const l = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+      sum += l;
+      sumSq += l * l;
+      n++;
+    }
+  }
+  return n > 0 ? sumSq / n - (sum / n) ** 2 : 0;
+};
+
+const differenceHash = (luma: Float32Array) => {
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (luma[y * HASH_WIDTH + x] > luma[y * HASH_WIDTH + x + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+// Percentage of matching bits between two difference hashes.
+export const hashSimilarity = (a: string, b: string) => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let x = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (x) {
+      distance += x & 1;
+      x >>= 1;
+    }
+  }
+  return Math.round((1 - distance / (a.length * 4)) * 100);
+};
+
+// --- Quality API ---
+
+// Measures exposure, sharpness and similarity to the previous frame's hash, and lists the failed checks.
+export const assessFrameQuality = async (src: string, settings: QualitySettings, previousHash?: string): Promise<FrameQuality> => {
+  const img = await loadImage(src);
+  const height = Math.max(1, Math.round(ANALYSIS_WIDTH * img.naturalHeight / img.naturalWidth));
+  const luma = readLuma(img, ANALYSIS_WIDTH, height);
+  const brightness = Math.round(luma.reduce((a, b) => a + b, 0) / luma.length / 255 * 100);
+  const sharpness = Math.round(laplacianVariance(luma, ANALYSIS_WIDTH, height));
+  const hash = differenceHash(readLuma(img, HASH_WIDTH, HASH_HEIGHT));
+  const similarity = previousHash ? hashSimilarity(hash, previousHash) : undefined;
+
+  const issues: QualityIssue[] = [];
+  if (brightness < settings.minBrightness) issues.push('dark');
+  if (brightness > settings.maxBrightness) issues.push('overexposed');
+  // A dark frame has no edges to measure, so it is not also reported as blurry.
+  if (!issues.includes('dark') && sharpness < settings.minSharpness) issues.push('blurry');
+  if (similarity !== undefined && similarity >= settings.maxSimilarity) issues.push('duplicate');
+
+  return { brightness, sharpness, hash, similarity, issues };
+};
+
+const policyFor = (issue: QualityIssue, settings: QualitySettings): QualityPolicy =>
+  issue === 'blurry' ? settings.blurPolicy : issue === 'duplicate' ? settings.duplicatePolicy : settings.exposurePolicy;
+
+// Resolves the strictest policy across a frame's issues. Issues whose policy is 'off' are dropped from the record.
+export const applyQualityPolicies = (quality: FrameQuality, settings: QualitySettings) => {
+  const active = quality.issues.filter(issue => policyFor(issue, settings) !== 'off');
+  const policies = active.map(issue => policyFor(issue, settings));
+  return {
+    quality: { ...quality, issues: active },
+    discard: policies.includes('discard'),
+    skipAnalysis: policies.includes('skip-analysis')
+  };
+};
@@ -0,0 +1,225 @@
+import { CapturedImage, CareEvent, GrowthReport, HealthStatus } from "../types";
+import { generateGrowthReport } from "./geminiService";
+import { getReliableFrames } from "./confidenceService";
+import { careEventLine, careEventsInRange } from "./careService";
+
+// --- Types ---
+
+export interface DaySummary {
+  day: string;
+  frames: number;
+  health: Record<HealthStatus, number>;
+  stage: string;
+  tags: string[];
+}
+
+// --- Configuration Constants ---
+const MAX_KEY_FRAMES = 6;
+const THUMBNAIL_WIDTH = 320;
+
+// --- Helpers ---
+
+// Local calendar day (YYYY-MM-DD), matching the dates shown everywhere else in the UI.
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const getReportFrames = (report: GrowthReport, images: CapturedImage[]) => {
+  const ids = new Set(report.frameIds);
+  return images.filter(img => ids.has(img.id));
+};
+
+// One line per frame so the model sees the sequence with its timing and metadata.
+// Care journal entries are interleaved in time order so actions sit next to the frames they affected.
+export const buildReportLogs = (frames: CapturedImage[], careEvents: CareEvent[] = []) => [
+  ...frames.map(f => ({
+    timestamp: f.timestamp,
+    line: [
+      new Date(f.timestamp).toISOString(),
+      `HEALTH=${f.healthStatus}`,
+      `STAGE=${f.growthStage || 'unknown'}`,
+      `TAGS=${(f.eventTags || []).join(',') || 'none'}`,
+      `CONFIDENCE=${f.confidence ?? 'n/a'}%`,
+      f.analysis || ''
+    ].join(' | ')
+  })),
+  ...careEvents.map(e => ({ timestamp: e.timestamp, line: careEventLine(e) }))
+].sort((a, b) => a.timestamp - b.timestamp).map(entry => entry.line);
+
+export const summarizeByDay = (frames: CapturedImage[]): DaySummary[] => {
+  const days = new Map<string, CapturedImage[]>();
+  frames.forEach(f => {
+    const key = dayKey(f.timestamp);
+    days.set(key, [...(days.get(key) || []), f]);
+  });
+
+  return [...days.entries()].map(([day, group]) => {
+    const health: Record<HealthStatus, number> = { HEALTHY: 0, STRESSED: 0, CRITICAL: 0 };
+    const stageCounts = new Map<string, number>();
+    const tags = new Set<string>();
+    group.forEach(f => {
+      if (f.healthStatus) health[f.healthStatus]++;
+      if (f.growthStage) stageCounts.set(f.growthStage, (stageCounts.get(f.growthStage) || 0) + 1);
+      (f.eventTags || []).forEach(t => tags.add(t));
+    });
+    const stage = [...stageCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || '-';
+    return { day, frames: group.length, health, stage, tags: [...tags] };
+  });
+};
+
+// First and last frame, every stage transition and the worst-health frames, capped at MAX_KEY_FRAMES.
+export const selectKeyFrames = (frames: CapturedImage[]) => {
+  if (frames.length <= MAX_KEY_FRAMES) return frames;
+  const picked = new Set<CapturedImage>([frames[0], frames[frames.length - 1]]);
+  frames.forEach((f, i) => {
+    if (i > 0 && f.growthStage !== frames[i - 1].growthStage) picked.add(f);
+  });
+  frames.filter(f => f.healthStatus === 'CRITICAL').forEach(f => picked.add(f));
+  frames.filter(f => f.healthStatus === 'STRESSED').forEach(f => picked.add(f));
+  return frames.filter(f => picked.has(f)).slice(0, MAX_KEY_FRAMES);
+};
+
+const makeThumbnail = (src: string) => new Promise<string>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = Math.round(THUMBNAIL_WIDTH * img.naturalHeight / img.naturalWidth);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return reject(new Error("Canvas rendering unavailable."));
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    resolve(canvas.toDataURL('image/jpeg', 0.7));
+  };
+  img.onerror = () => reject(new Error("Thumbnail could not be decoded."));
+  img.src = src;
+});
+
+// --- Generation ---
+
+export const createReport = async (
+  images: CapturedImage[],
+  rangeStart: number,
+  rangeEnd: number,
+  minConfidenceThreshold: number,
+  careEvents: CareEvent[] = []
+): Promise<GrowthReport> => {
+  const inRange = images.filter(img => img.timestamp >= rangeStart && img.timestamp <= rangeEnd);
+  const frames = getReliableFrames(inRange, minConfidenceThreshold);
+  if (frames.length === 0) throw new Error("No analysed frames above the confidence threshold in this range.");
+
+  const text = await generateGrowthReport(buildReportLogs(frames, careEventsInRange(careEvents, rangeStart, rangeEnd)));
+  return {
+    id: Date.now().toString(),
+    createdAt: Date.now(),
+    rangeStart,
+    rangeEnd,
+    frameIds: frames.map(f => f.id),
+    text: text || ''
+  };
+};
+
+// --- Export ---
+
+const reportTitle = (report: GrowthReport) =>
+  `Growth Report ${dayKey(report.rangeStart)} to ${dayKey(report.rangeEnd)}`;
+
+export const reportToMarkdown = async (report: GrowthReport, images: CapturedImage[]) => {
+  const frames = getReportFrames(report, images);
+  const thumbs = await Promise.all(selectKeyFrames(frames).map(async f => ({ frame: f, src: await makeThumbnail(f.dataUrl) })));
+
+  const lines = [
+    `# ${reportTitle(report)}`,
+    '',
+    `_Generated ${new Date(report.createdAt).toLocaleString()} from ${report.frameIds.length} frames._`,
+    '',
+    report.text,
+    '',
+    '## Daily Summary',
+    '',
+    '| Day | Frames | Healthy | Stressed | Critical | Stage | Tags |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+    ...summarizeByDay(frames).map(d =>
+      `| ${d.day} | ${d.frames} | ${d.health.HEALTHY} | ${d.health.STRESSED} | ${d.health.CRITICAL} | ${d.stage} | ${d.tags.join(', ') || '-'} |`),
+    '',
+    '## Key Frames',
+    '',
+    ...thumbs.flatMap(({ frame, src }) => [
+      `![${frame.id}](${src})`,
+      `${new Date(frame.timestamp).toLocaleString()} - ${frame.healthStatus} / ${frame.growthStage}`,
+      ''
+    ])
+  ];
+  return lines.join('\n');
+};
+
+export const reportToHtml = async (report: GrowthReport, images: CapturedImage[]) => {
+  const frames = getReportFrames(report, images);
+  const thumbs = await Promise.all(selectKeyFrames(frames).map(async f => ({ frame: f, src: await makeThumbnail(f.dataUrl) })));
+  const title = escapeHtml(reportTitle(report));
+
+  const rows = summarizeByDay(frames).map(d => `
+      <tr><td>${d.day}</td><td>${d.frames}</td><td>${d.health.HEALTHY}</td><td>${d.health.STRESSED}</td><td>${d.health.CRITICAL}</td><td>${escapeHtml(d.stage)}</td><td>${escapeHtml(d.tags.join(', ') || '-')}</td></tr>`).join('');
+  const figures = thumbs.map(({ frame, src }) => `
+      <figure><img src="${src}" alt="${frame.id}"/><figcaption>${escapeHtml(new Date(frame.timestamp).toLocaleString())}<br/>${frame.healthStatus} / ${escapeHtml(frame.growthStage || '-')}</figcaption></figure>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${title}</title>
+  <style>
+    body { font-family: Inter, sans-serif; color: #0f172a; max-width: 860px; margin: 32px auto; padding: 0 16px; }
+    h1 { font-size: 20px; } h2 { font-size: 15px; margin-top: 28px; }
+    .meta { color: #64748b; font-size: 12px; }
+    .text { white-space: pre-wrap; line-height: 1.6; font-size: 14px; }
+    table { border-collapse: collapse; width: 100%; font-size: 12px; }
+    th, td { border: 1px solid #cbd5e1; padding: 4px 8px; text-align: left; }
+    th { background: #f1f5f9; }
+    .frames { display: flex; flex-wrap: wrap; gap: 12px; }
+    figure { margin: 0; width: 260px; font-size: 11px; color: #475569; break-inside: avoid; }
+    figure img { width: 100%; border-radius: 6px; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <p class="meta">Generated ${escapeHtml(new Date(report.createdAt).toLocaleString())} from ${report.frameIds.length} frames.</p>
+  <div class="text">${escapeHtml(report.text)}</div>
+  <h2>Daily Summary</h2>
+  <table>
+    <thead><tr><th>Day</th><th>Frames</th><th>Healthy</th><th>Stressed</th><th>Critical</th><th>Stage</th><th>Tags</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <h2>Key Frames</h2>
+  <div class="frames">${figures}
+  </div>
+</body>
+</html>`;
+};
+
+// PDF output goes through the browser print dialog ("Save as PDF") on the rendered HTML.
+export const printReport = async (report: GrowthReport, images: CapturedImage[]) => {
+  const html = await reportToHtml(report, images);
+  const win = window.open('', '_blank');
+  if (!win) throw new Error("Pop-up blocked. Allow pop-ups to export PDF.");
+  // The handler goes on before the write; a short document can finish loading inside close().
+  win.onload = () => win.print();
+  win.document.write(html);
+  win.document.close();
+};
+
+export const downloadText = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const reportFilename = (report: GrowthReport, ext: string) =>
+  `chronos-gaia-report-${dayKey(report.rangeStart)}_${dayKey(report.rangeEnd)}.${ext}`;
@@ -0,0 +1,101 @@
+import { CapturedImage, CareEvent } from "../types";
+import { getReliableFrames } from "./confidenceService";
+import { summarizeByDay, dayKey } from "./reportService";
+import { careEventLine } from "./careService";
+
+// --- Configuration Constants ---
+const MAX_RELEVANT_FRAMES = 12;
+const MAX_DAILY_LINES = 60;
+const MAX_CARE_LINES = 40;
+const STOPWORDS = new Set(['the', 'and', 'was', 'were', 'did', 'does', 'how', 'many', 'what', 'when', 'which', 'this', 'that', 'with', 'from', 'have', 'has', 'there', 'our', 'plant', 'first', 'last', 'month', 'week', 'days', 'day']);
+
+// Citations are written inline by the model as [frame:<id>].
+export const FRAME_CITATION_PATTERN = /\[frame:([\w-]+)\]/g;
+
+// --- Helpers ---
+
+const frameLine = (f: CapturedImage) =>
+  `[frame:${f.id}] ${new Date(f.timestamp).toISOString()} | ${f.healthStatus} | stage=${f.growthStage} | tags=${(f.eventTags || []).join(',') || 'none'} | conf=${f.confidence}% | ${f.analysis || ''}`;
+
+// Prefix matching on the first five letters keeps "budding", "buds" and "bud" together without a stemmer.
+const tokenize = (text: string) =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 2 && !STOPWORDS.has(t)).map(t => t.slice(0, 5));
+
+const scoreFrame = (frame: CapturedImage, tokens: string[]) => {
+  const haystack = tokenize([frame.analysis, frame.growthStage, frame.healthStatus, frame.advice, ...(frame.eventTags || [])].join(' '));
+  return tokens.reduce((score, t) => score + haystack.filter(h => h === t).length, 0);
+};
+
+export const extractFrameCitations = (text: string) =>
+  [...new Set([...text.matchAll(FRAME_CITATION_PATTERN)].map(m => m[1]))];
+
+// Splits an answer into plain text and cited frame ids, in order, for inline rendering.
+export const splitFrameCitations = (text: string): Array<string | { frameId: string }> => {
+  const parts: Array<string | { frameId: string }> = [];
+  let last = 0;
+  for (const m of text.matchAll(FRAME_CITATION_PATTERN)) {
+    if (m.index! > last) parts.push(text.slice(last, m.index));
+    parts.push({ frameId: m[1] });
+    last = m.index! + m[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+};
+
+// The most recent care journal entries, so the model can tie changes to grower actions.
+const careSection = (careEvents: CareEvent[]) =>
+  careEvents.length > 0 ? ['CARE JOURNAL:', ...careEvents.slice(-MAX_CARE_LINES).map(careEventLine)].join('\n') : '';
+
+// --- Retrieval ---
+
+// Builds the observation digest sent alongside a chat question: whole-grow milestones and daily health,
+// plus the frames whose analyses best match the question. Only frames above the confidence threshold count.
+// The care journal is appended, and sent on its own while no frame is reliable enough to report on.
+export const buildObservationContext = (query: string, images: CapturedImage[], minConfidenceThreshold: number, careEvents: CareEvent[] = []) => {
+  const frames = getReliableFrames(images, minConfidenceThreshold);
+  const care = careSection(careEvents);
+  if (frames.length === 0) return care;
+
+  const stageMilestones = new Map<string, CapturedImage>();
+  const tagMilestones = new Map<string, { first: CapturedImage; count: number }>();
+  frames.forEach(f => {
+    if (f.growthStage && !stageMilestones.has(f.growthStage)) stageMilestones.set(f.growthStage, f);
+    (f.eventTags || []).forEach(t => {
+      const entry = tagMilestones.get(t);
+      if (entry) entry.count++;
+      else tagMilestones.set(t, { first: f, count: 1 });
+    });
+  });
+
+  const daily = summarizeByDay(frames);
+  const worstDays = (status: 'STRESSED' | 'CRITICAL') => daily.filter(d => d.health[status] > 0).map(d => d.day);
+
+  const tokens = tokenize(query);
+  const scored = frames
+    .map(f => ({ frame: f, score: scoreFrame(f, tokens) }))
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score || a.frame.timestamp - b.frame.timestamp)
+    .slice(0, MAX_RELEVANT_FRAMES)
+    .map(s => s.frame);
+  const relevant = scored.length > 0 ? scored : frames.slice(-5);
+
+  return [
+    `OBSERVATION ARCHIVE: ${frames.length} analysed frames from ${dayKey(frames[0].timestamp)} to ${dayKey(frames[frames.length - 1].timestamp)}.`,
+    '',
+    'STAGE FIRST SEEN:',
+    ...[...stageMilestones.entries()].map(([stage, f]) => `- ${stage}: ${new Date(f.timestamp).toISOString()} [frame:${f.id}]`),
+    '',
+    'TAG FIRST SEEN (occurrences):',
+    ...[...tagMilestones.entries()].map(([tag, e]) => `- ${tag} (${e.count}): ${new Date(e.first.timestamp).toISOString()} [frame:${e.first.id}]`),
+    '',
+    `DAYS WITH STRESSED FRAMES: ${worstDays('STRESSED').length} (${worstDays('STRESSED').join(', ') || 'none'})`,
+    `DAYS WITH CRITICAL FRAMES: ${worstDays('CRITICAL').length} (${worstDays('CRITICAL').join(', ') || 'none'})`,
+    '',
+    'DAILY HEALTH (healthy/stressed/critical, dominant stage):',
+    ...daily.slice(-MAX_DAILY_LINES).map(d => `- ${d.day}: ${d.health.HEALTHY}/${d.health.STRESSED}/${d.health.CRITICAL}, ${d.stage}`),
+    '',
+    'MOST RELEVANT FRAMES:',
+    ...relevant.map(frameLine),
+    ...(care ? ['', care] : [])
+  ].join('\n');
+};
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { CaptureSchedule } from '../types';
+import { getCaptureWindow, getNextCaptureTime, auditCapture } from './schedulerService';
+
+// Runs in Europe/Berlin (see vite.config.ts): DST starts 2026-03-29 02:00 and ends 2026-10-25 03:00.
+const HOUR = 60 * 60 * 1000;
+const at = (month: number, day: number, hour: number, minute = 0) => new Date(2026, month - 1, day, hour, minute).getTime();
+
+const schedule = (overrides: Partial<CaptureSchedule> = {}): CaptureSchedule => ({
+  window: 'always',
+  startHour: 8,
+  endHour: 20,
+  activeDays: [0, 1, 2, 3, 4, 5, 6],
+  sunOffsetMinutes: 0,
+  catchUp: false,
+  ...overrides
+});
+
+describe('getNextCaptureTime', () => {
+  it('captures immediately when nothing was captured yet', () => {
+    expect(getNextCaptureTime(null, at(6, 10, 12), HOUR, schedule())).toBe(at(6, 10, 12));
+  });
+
+  it('keeps the interval cadence inside the window', () => {
+    expect(getNextCaptureTime(at(6, 10, 9), at(6, 10, 9, 30), HOUR, schedule({ window: 'hours' }))).toBe(at(6, 10, 10));
+  });
+
+  it('defers a slot after the window closes to the next window start', () => {
+    expect(getNextCaptureTime(at(6, 10, 19, 30), at(6, 10, 19, 45), HOUR, schedule({ window: 'hours' }))).toBe(at(6, 11, 8));
+  });
+
+  it('skips inactive days', () => {
+    // 2026-06-13 is a Saturday; weekdays only.
+    const weekdays = schedule({ window: 'hours', activeDays: [1, 2, 3, 4, 5] });
+    expect(getNextCaptureTime(at(6, 12, 19, 30), at(6, 12, 19, 45), HOUR, weekdays)).toBe(at(6, 15, 8));
+  });
+
+  it('runs a window that spans midnight through into the next day', () => {
+    const night = schedule({ window: 'hours', startHour: 22, endHour: 6 });
+    expect(getNextCaptureTime(at(6, 10, 23), at(6, 10, 23, 30), 2 * HOUR, night)).toBe(at(6, 11, 1));
+    expect(getNextCaptureTime(at(6, 11, 5, 30), at(6, 11, 5, 45), HOUR, night)).toBe(at(6, 11, 22));
+  });
+
+  it('fires a slot that is only just behind instead of treating it as missed', () => {
+    expect(getNextCaptureTime(at(6, 10, 9), at(6, 10, 10) + 30 * 1000, HOUR, schedule())).toBe(at(6, 10, 10));
+  });
+
+  it('fires immediately after missed slots with catch-up', () => {
+    expect(getNextCaptureTime(at(6, 10, 8), at(6, 10, 12, 20), HOUR, schedule({ catchUp: true }))).toBe(at(6, 10, 12, 20));
+  });
+
+  it('skips ahead to the next slot on the cadence without catch-up', () => {
+    expect(getNextCaptureTime(at(6, 10, 8), at(6, 10, 12, 20), HOUR, schedule())).toBe(at(6, 10, 13));
+  });
+
+  it('falls back to the hours window when daylight has no coordinates', () => {
+    const daylight = schedule({ window: 'daylight' });
+    expect(getNextCaptureTime(at(6, 10, 19, 30), at(6, 10, 19, 45), HOUR, daylight)).toBe(at(6, 11, 8));
+  });
+
+  it('opens the daylight window at sunrise, widened by the offset', () => {
+    // Berlin sunrise on the solstice is about 04:43 local time.
+    const berlin = schedule({ window: 'daylight', latitude: 52.52, longitude: 13.405 });
+    const sunrise = getNextCaptureTime(at(6, 21, 0, 30), at(6, 21, 1), HOUR, berlin)!;
+    expect(sunrise).toBeGreaterThan(at(6, 21, 4, 30));
+    expect(sunrise).toBeLessThan(at(6, 21, 5));
+    const early = getNextCaptureTime(at(6, 21, 0, 30), at(6, 21, 1), HOUR, { ...berlin, sunOffsetMinutes: 30 })!;
+    expect(sunrise - early).toBe(30 * 60 * 1000);
+  });
+
+  it('keeps elapsed time across the spring-forward hour', () => {
+    // 01:30 CET plus one hour is 03:30 CEST; 02:xx does not exist that night.
+    expect(getNextCaptureTime(at(3, 29, 1, 30), at(3, 29, 1, 45), HOUR, schedule())).toBe(at(3, 29, 3, 30));
+  });
+
+  it('keeps elapsed time across the fall-back hour', () => {
+    const last = new Date('2026-10-25T00:30:00Z').getTime(); // 02:30 CEST, before the clocks go back
+    expect(getNextCaptureTime(last, last + 10 * 60 * 1000, HOUR, schedule())).toBe(last + HOUR);
+  });
+});
+
+describe('getCaptureWindow', () => {
+  it('follows the local day length on DST changes', () => {
+    const always = schedule();
+    const spring = getCaptureWindow(new Date(2026, 2, 29), always)!;
+    const autumn = getCaptureWindow(new Date(2026, 9, 25), always)!;
+    expect(spring.end - spring.start).toBe(23 * HOUR);
+    expect(autumn.end - autumn.start).toBe(25 * HOUR);
+  });
+});
+
+describe('auditCapture', () => {
+  it('reports an on-time capture against its own slot', () => {
+    expect(auditCapture(at(6, 10, 8), at(6, 10, 9), HOUR, schedule())).toEqual({ plannedAt: at(6, 10, 9), missedSlots: 0 });
+  });
+
+  it('counts every slot that passed without a capture', () => {
+    expect(auditCapture(at(6, 10, 8), at(6, 10, 13), HOUR, schedule())).toEqual({ plannedAt: at(6, 10, 13), missedSlots: 4 });
+  });
+
+  it('lets a catch-up capture stand in for the oldest missed slot', () => {
+    expect(auditCapture(at(6, 10, 8), at(6, 10, 12, 20), HOUR, schedule({ catchUp: true }))).toEqual({ plannedAt: at(6, 10, 9), missedSlots: 3 });
+  });
+
+  it('does not count slots outside the capture window as missed', () => {
+    expect(auditCapture(at(6, 10, 19), at(6, 11, 8), HOUR, schedule({ window: 'hours' }))).toEqual({ plannedAt: at(6, 11, 8), missedSlots: 0 });
+  });
+
+  it('counts missed slots inside a window that spans midnight', () => {
+    const night = schedule({ window: 'hours', startHour: 22, endHour: 2 });
+    expect(auditCapture(at(6, 10, 1), at(6, 11, 0), HOUR, night)).toEqual({ plannedAt: at(6, 11, 0), missedSlots: 2 });
+  });
+
+  it('counts the missing spring-forward hour as one slot, not two', () => {
+    expect(auditCapture(at(3, 29, 1), at(3, 29, 4), HOUR, schedule())).toEqual({ plannedAt: at(3, 29, 4), missedSlots: 1 });
+  });
+});
@@ -0,0 +1,122 @@
+import { CaptureSchedule } from "../types";
+
+// --- Configuration Constants ---
+export const SCHEDULER_TICK_MS = 30 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LOOKAHEAD_DAYS = 8;          // A full week of inactive days plus one
+const MISSED_GRACE_MS = 2 * SCHEDULER_TICK_MS; // A slot only counts as missed once it is this far behind
+const SUN_ALTITUDE = -0.833;           // Degrees; accounts for refraction and the solar disc
+const MAX_AUDITED_SLOTS = 10000;       // Bounds the replay after very long outages
+export const LATE_CAPTURE_MS = MISSED_GRACE_MS;
+
+export interface CaptureWindow {
+  start: number;
+  end: number;
+}
+
+// --- Solar Position ---
+
+const rad = (deg: number) => deg * Math.PI / 180;
+const deg = (r: number) => r * 180 / Math.PI;
+const toJulian = (ms: number) => ms / DAY_MS + 2440587.5;
+const fromJulian = (j: number) => (j - 2440587.5) * DAY_MS;
+
+// Sunrise equation (NOAA approximation), accurate to about a minute at temperate latitudes.
+// Returns null during polar night and the whole day during midnight sun.
+export const getSunTimes = (day: Date, latitude: number, longitude: number): CaptureWindow | null => {
+  const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate()).getTime();
+  const localNoon = dayStart + DAY_MS / 2;
+  const n = Math.round(toJulian(localNoon) - 2451545 + longitude / 360);
+  const jStar = n - longitude / 360;
+  const m = (357.5291 + 0.98560028 * jStar) % 360;
+  const c = 1.9148 * Math.sin(rad(m)) + 0.02 * Math.sin(rad(2 * m)) + 0.0003 * Math.sin(rad(3 * m));
+  const lambda = (m + c + 180 + 102.9372) % 360;
+  const transit = 2451545 + jStar + 0.0053 * Math.sin(rad(m)) - 0.0069 * Math.sin(rad(2 * lambda));
+  const declination = Math.asin(Math.sin(rad(lambda)) * Math.sin(rad(23.4397)));
+  const cosHourAngle = (Math.sin(rad(SUN_ALTITUDE)) - Math.sin(rad(latitude)) * Math.sin(declination)) / (Math.cos(rad(latitude)) * Math.cos(declination));
+
+  if (cosHourAngle > 1) return null;
+  if (cosHourAngle < -1) return { start: dayStart, end: dayStart + DAY_MS };
+  const hourAngle = deg(Math.acos(cosHourAngle));
+  return { start: fromJulian(transit - hourAngle / 360), end: fromJulian(transit + hourAngle / 360) };
+};
+
+// --- Windows ---
+
+// The window that opens on the given local day, or null when the day is inactive.
+// A daylight window without coordinates falls back to the hours window.
+export const getCaptureWindow = (day: Date, schedule: CaptureSchedule): CaptureWindow | null => {
+  if (!schedule.activeDays.includes(day.getDay())) return null;
+  const y = day.getFullYear(), mo = day.getMonth(), d = day.getDate();
+
+  if (schedule.window === 'always') {
+    return { start: new Date(y, mo, d).getTime(), end: new Date(y, mo, d + 1).getTime() };
+  }
+  if (schedule.window === 'daylight' && schedule.latitude !== undefined && schedule.longitude !== undefined) {
+    const sun = getSunTimes(day, schedule.latitude, schedule.longitude);
+    if (!sun) return null;
+    const offset = schedule.sunOffsetMinutes * 60 * 1000;
+    return sun.end - sun.start + 2 * offset > 0 ? { start: sun.start - offset, end: sun.end + offset } : null;
+  }
+  const start = new Date(y, mo, d, schedule.startHour).getTime();
+  const end = new Date(y, mo, schedule.endHour > schedule.startHour ? d : d + 1, schedule.endHour).getTime();
+  return { start, end };
+};
+
+// Earliest time at or after `from` that lies inside a capture window, or null if none within the lookahead.
+export const getNextWindowTime = (from: number, schedule: CaptureSchedule): number | null => {
+  const origin = new Date(from);
+  // Start one day back: yesterday's window may span midnight into today.
+  for (let i = -1; i <= MAX_LOOKAHEAD_DAYS; i++) {
+    const span = getCaptureWindow(new Date(origin.getFullYear(), origin.getMonth(), origin.getDate() + i), schedule);
+    if (span && span.end > from) return Math.max(from, span.start);
+  }
+  return null;
+};
+
+export const isInCaptureWindow = (time: number, schedule: CaptureSchedule) =>
+  getNextWindowTime(time, schedule) === time;
+
+// --- Scheduling ---
+
+// Planned time of the next capture: one interval after the last, deferred into the next window.
+// A planned time that slipped past (app closed, device asleep) fires immediately with catch-up,
+// otherwise the cadence skips ahead to its next slot.
+export const getNextCaptureTime = (
+  lastCapture: number | null,
+  now: number,
+  intervalMs: number,
+  schedule: CaptureSchedule
+): number | null => {
+  if (lastCapture === null) return getNextWindowTime(now, schedule);
+  const planned = getNextWindowTime(lastCapture + intervalMs, schedule);
+  if (planned === null || now - planned <= MISSED_GRACE_MS) return planned;
+  if (schedule.catchUp) return getNextWindowTime(now, schedule);
+  return getNextWindowTime(lastCapture + Math.ceil((now - lastCapture) / intervalMs) * intervalMs, schedule);
+};
+
+export const isCaptureDue = (lastCapture: number | null, now: number, intervalMs: number, schedule: CaptureSchedule) => {
+  const next = getNextCaptureTime(lastCapture, now, intervalMs, schedule);
+  return next !== null && now >= next;
+};
+
+// Replays the plan from the last capture to decide which slot a due capture fulfils and how many planned
+// slots passed without one. With catch-up the capture stands in for the oldest missed slot.
+export const auditCapture = (
+  lastCapture: number,
+  now: number,
+  intervalMs: number,
+  schedule: CaptureSchedule
+): { plannedAt: number; missedSlots: number } => {
+  const next = getNextCaptureTime(lastCapture, now, intervalMs, schedule) ?? now;
+  let overdue = 0;
+  let slot = getNextWindowTime(lastCapture + intervalMs, schedule);
+  const first = slot;
+  while (slot !== null && now - slot > MISSED_GRACE_MS && overdue < MAX_AUDITED_SLOTS) {
+    overdue++;
+    slot = getNextWindowTime(slot + intervalMs, schedule);
+  }
+  if (overdue === 0) return { plannedAt: next, missedSlots: 0 };
+  return schedule.catchUp ? { plannedAt: first!, missedSlots: overdue - 1 } : { plannedAt: next, missedSlots: overdue };
+};
+
@@ -0,0 +1,391 @@
+import { CapturedImage, GrowthReport, TimelineInsight, CaptureLogEntry, Project, CareEvent, Alert, WebhookConfig, WebhookDelivery, MonitorSettings } from "../types";
+import { projectIdOf } from "./projectService";
+import { isOwnedEntry } from "./captureHealthService";
+
+// --- Configuration Constants ---
+const DB_NAME = 'chronos-gaia';
+const DB_VERSION = 10;
+const STORE_FRAMES = 'frames';          // CapturedImage metadata, keyed by id
+const STORE_BLOBS = 'blobs';            // Raw JPEG Blobs, keyed by frame id
+const STORE_REPORTS = 'reports';        // GrowthReport documents, keyed by id
+const STORE_INSIGHTS = 'insights';      // TimelineInsight comparisons, keyed by id
+const STORE_CAPTURE_LOG = 'captureLog'; // CaptureLogEntry records, keyed by id
+const STORE_PROJECTS = 'projects';      // Project definitions, keyed by id
+const STORE_CARE = 'careEvents';        // CareEvent journal entries, keyed by id
+const STORE_ALERTS = 'alerts';          // Alert feed entries, keyed by id
+const STORE_DELIVERIES = 'deliveries';  // WebhookDelivery attempts, keyed by id
+const STORE_WEBHOOKS = 'webhooks';      // WebhookConfig definitions, keyed by id
+const STORE_SETTINGS = 'settings';      // MonitorSettings, one record under SETTINGS_KEY
+const SETTINGS_KEY = 'monitor';
+
+type FrameRecord = Omit<CapturedImage, 'dataUrl'>;
+
+// --- Connection Helper ---
+// The connection is opened once and shared; IndexedDB handles concurrent transactions on it.
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_FRAMES)) {
+          const frames = db.createObjectStore(STORE_FRAMES, { keyPath: 'id' });
+          frames.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(STORE_BLOBS)) {
+          db.createObjectStore(STORE_BLOBS);
+        }
+        if (!db.objectStoreNames.contains(STORE_REPORTS)) {
+          const reports = db.createObjectStore(STORE_REPORTS, { keyPath: 'id' });
+          reports.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(STORE_INSIGHTS)) {
+          const insights = db.createObjectStore(STORE_INSIGHTS, { keyPath: 'id' });
+          insights.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(STORE_CAPTURE_LOG)) {
+          const log = db.createObjectStore(STORE_CAPTURE_LOG, { keyPath: 'id' });
+          log.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(STORE_PROJECTS)) {
+          const projects = db.createObjectStore(STORE_PROJECTS, { keyPath: 'id' });
+          projects.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(STORE_CARE)) {
+          const care = db.createObjectStore(STORE_CARE, { keyPath: 'id' });
+          care.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(STORE_ALERTS)) {
+          const alerts = db.createObjectStore(STORE_ALERTS, { keyPath: 'id' });
+          alerts.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(STORE_DELIVERIES)) {
+          const deliveries = db.createObjectStore(STORE_DELIVERIES, { keyPath: 'id' });
+          deliveries.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(STORE_WEBHOOKS)) {
+          db.createObjectStore(STORE_WEBHOOKS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORE_SETTINGS)) {
+          db.createObjectStore(STORE_SETTINGS);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+const toRecord = ({ dataUrl, ...meta }: CapturedImage): FrameRecord => meta;
+
+// --- Frame Data Helpers ---
+
+export const dataUrlToBlob = async (dataUrl: string) => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+// Restored frames carry an object URL instead of an inline data URL.
+// Anything that needs the base64 payload (e.g. analyzeImage) should go through here.
+export const resolveImageData = async (img: CapturedImage): Promise<string> => {
+  if (img.dataUrl.startsWith('data:')) return img.dataUrl;
+  const blob = await dataUrlToBlob(img.dataUrl);
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+// --- Persistence API ---
+
+// Metadata is read in one pass; image bytes stay on disk as Blobs and are only
+// referenced through object URLs, so the browser decodes them when a thumbnail is shown.
+export const loadFrames = async (): Promise<CapturedImage[]> => {
+  const db = await openDB();
+  const tx = db.transaction([STORE_FRAMES, STORE_BLOBS], 'readonly');
+  const records = await promisify<FrameRecord[]>(tx.objectStore(STORE_FRAMES).index('timestamp').getAll());
+  const blobStore = tx.objectStore(STORE_BLOBS);
+
+  const frames = await Promise.all(records.map(async (record) => {
+    const blob = await promisify<Blob | undefined>(blobStore.get(record.id));
+    return blob ? { ...record, dataUrl: URL.createObjectURL(blob) } : null;
+  }));
+
+  return frames.filter((f): f is CapturedImage => f !== null);
+};
+
+export const saveFrame = async (img: CapturedImage, includeBlob: boolean = true) => {
+  // Blob conversion must finish before the transaction opens, or it auto-commits.
+  const blob = includeBlob ? await dataUrlToBlob(img.dataUrl) : null;
+  const db = await openDB();
+  const tx = db.transaction([STORE_FRAMES, STORE_BLOBS], 'readwrite');
+  tx.objectStore(STORE_FRAMES).put(toRecord(img));
+  if (blob) tx.objectStore(STORE_BLOBS).put(blob, img.id);
+  return transactionDone(tx);
+};
+
+export const deleteFrames = async (ids: string[]) => {
+  const db = await openDB();
+  const tx = db.transaction([STORE_FRAMES, STORE_BLOBS], 'readwrite');
+  ids.forEach(id => {
+    tx.objectStore(STORE_FRAMES).delete(id);
+    tx.objectStore(STORE_BLOBS).delete(id);
+  });
+  return transactionDone(tx);
+};
+
+export const clearFrames = async () => {
+  const db = await openDB();
+  const tx = db.transaction([STORE_FRAMES, STORE_BLOBS], 'readwrite');
+  tx.objectStore(STORE_FRAMES).clear();
+  tx.objectStore(STORE_BLOBS).clear();
+  return transactionDone(tx);
+};
+
+// Reconciles the store with a new `images` state so callers can keep using plain setImages.
+// New ids are written with their Blob, replaced objects only rewrite metadata, missing ids are removed.
+// `prev` must be the last state that synced successfully; every write is idempotent, so replaying part of a failed sync is safe.
+export const syncFrames = async (prev: CapturedImage[], next: CapturedImage[]) => {
+  const prevById = new Map(prev.map(img => [img.id, img]));
+  const nextIds = new Set(next.map(img => img.id));
+
+  const removed = prev.filter(img => !nextIds.has(img.id));
+  if (removed.length > 0 && next.length === 0) {
+    await clearFrames();
+  } else if (removed.length > 0) {
+    await deleteFrames(removed.map(img => img.id));
+  }
+  removed.forEach(img => {
+    if (img.dataUrl.startsWith('blob:')) URL.revokeObjectURL(img.dataUrl);
+  });
+
+  for (const img of next) {
+    const previous = prevById.get(img.id);
+    if (!previous) {
+      await saveFrame(img, true);
+    } else if (previous !== img) {
+      await saveFrame(img, previous.dataUrl !== img.dataUrl && img.dataUrl.startsWith('data:'));
+    }
+  }
+};
+
+// --- Reports ---
+
+export const loadReports = async (): Promise<GrowthReport[]> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_REPORTS, 'readonly');
+  return promisify<GrowthReport[]>(tx.objectStore(STORE_REPORTS).index('createdAt').getAll());
+};
+
+export const saveReport = async (report: GrowthReport) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_REPORTS, 'readwrite');
+  tx.objectStore(STORE_REPORTS).put(report);
+  return transactionDone(tx);
+};
+
+export const deleteReport = async (id: string) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_REPORTS, 'readwrite');
+  tx.objectStore(STORE_REPORTS).delete(id);
+  return transactionDone(tx);
+};
+
+// --- Insights ---
+
+export const loadInsights = async (): Promise<TimelineInsight[]> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_INSIGHTS, 'readonly');
+  return promisify<TimelineInsight[]>(tx.objectStore(STORE_INSIGHTS).index('createdAt').getAll());
+};
+
+export const saveInsight = async (insight: TimelineInsight) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_INSIGHTS, 'readwrite');
+  tx.objectStore(STORE_INSIGHTS).put(insight);
+  return transactionDone(tx);
+};
+
+export const deleteInsight = async (id: string) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_INSIGHTS, 'readwrite');
+  tx.objectStore(STORE_INSIGHTS).delete(id);
+  return transactionDone(tx);
+};
+
+// --- Capture Log ---
+
+export const loadCaptureLog = async (): Promise<CaptureLogEntry[]> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_CAPTURE_LOG, 'readonly');
+  return promisify<CaptureLogEntry[]>(tx.objectStore(STORE_CAPTURE_LOG).index('timestamp').getAll());
+};
+
+export const appendCaptureLog = async (entry: CaptureLogEntry) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_CAPTURE_LOG, 'readwrite');
+  tx.objectStore(STORE_CAPTURE_LOG).put(entry);
+  return transactionDone(tx);
+};
+
+export const clearCaptureLog = async () => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_CAPTURE_LOG, 'readwrite');
+  tx.objectStore(STORE_CAPTURE_LOG).clear();
+  return transactionDone(tx);
+};
+
+// --- Projects ---
+
+export const loadProjects = async (): Promise<Project[]> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_PROJECTS, 'readonly');
+  return promisify<Project[]>(tx.objectStore(STORE_PROJECTS).index('createdAt').getAll());
+};
+
+// The project list is small, so it is rewritten as a whole rather than diffed.
+export const saveProjects = async (projects: Project[]) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_PROJECTS, 'readwrite');
+  const store = tx.objectStore(STORE_PROJECTS);
+  store.clear();
+  projects.forEach(project => store.put(project));
+  return transactionDone(tx);
+};
+
+// Frames leave through syncFrames with the images state; every other per-project store is swept here in one transaction.
+export const deleteProjectData = async (projectId: string) => {
+  const db = await openDB();
+  const stores = [STORE_REPORTS, STORE_INSIGHTS, STORE_CAPTURE_LOG, STORE_CARE, STORE_ALERTS];
+  const tx = db.transaction(stores, 'readwrite');
+  stores.forEach(name => {
+    const request = tx.objectStore(name).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const owned = name === STORE_CAPTURE_LOG ? isOwnedEntry(cursor.value, projectId) : projectIdOf(cursor.value) === projectId;
+      if (owned) cursor.delete();
+      cursor.continue();
+    };
+  });
+  return transactionDone(tx);
+};
+
+// --- Settings ---
+
+// Returns undefined until settings were first saved; fields added since then are missing from older records.
+export const loadSettings = async (): Promise<Partial<MonitorSettings> | undefined> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_SETTINGS, 'readonly');
+  return promisify<Partial<MonitorSettings> | undefined>(tx.objectStore(STORE_SETTINGS).get(SETTINGS_KEY));
+};
+
+export const saveSettings = async (settings: MonitorSettings) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_SETTINGS, 'readwrite');
+  tx.objectStore(STORE_SETTINGS).put(settings, SETTINGS_KEY);
+  return transactionDone(tx);
+};
+
+// --- Care Journal ---
+
+export const loadCareEvents = async (): Promise<CareEvent[]> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_CARE, 'readonly');
+  return promisify<CareEvent[]>(tx.objectStore(STORE_CARE).index('timestamp').getAll());
+};
+
+export const saveCareEvent = async (event: CareEvent) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_CARE, 'readwrite');
+  tx.objectStore(STORE_CARE).put(event);
+  return transactionDone(tx);
+};
+
+export const deleteCareEvent = async (id: string) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_CARE, 'readwrite');
+  tx.objectStore(STORE_CARE).delete(id);
+  return transactionDone(tx);
+};
+
+// --- Alerts ---
+
+export const loadAlerts = async (): Promise<Alert[]> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_ALERTS, 'readonly');
+  return promisify<Alert[]>(tx.objectStore(STORE_ALERTS).index('timestamp').getAll());
+};
+
+export const saveAlert = async (alert: Alert) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_ALERTS, 'readwrite');
+  tx.objectStore(STORE_ALERTS).put(alert);
+  return transactionDone(tx);
+};
+
+export const clearAlerts = async () => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_ALERTS, 'readwrite');
+  tx.objectStore(STORE_ALERTS).clear();
+  return transactionDone(tx);
+};
+
+// --- Webhooks ---
+
+export const loadWebhooks = async (): Promise<WebhookConfig[]> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_WEBHOOKS, 'readonly');
+  return promisify<WebhookConfig[]>(tx.objectStore(STORE_WEBHOOKS).getAll());
+};
+
+// Rewritten as a whole like the project list; the configs are few and edited in place.
+export const saveWebhooks = async (hooks: WebhookConfig[]) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_WEBHOOKS, 'readwrite');
+  const store = tx.objectStore(STORE_WEBHOOKS);
+  store.clear();
+  hooks.forEach(hook => store.put(hook));
+  return transactionDone(tx);
+};
+
+// --- Webhook Deliveries ---
+
+export const loadDeliveries = async (): Promise<WebhookDelivery[]> => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_DELIVERIES, 'readonly');
+  return promisify<WebhookDelivery[]>(tx.objectStore(STORE_DELIVERIES).index('timestamp').getAll());
+};
+
+export const appendDelivery = async (delivery: WebhookDelivery) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_DELIVERIES, 'readwrite');
+  tx.objectStore(STORE_DELIVERIES).put(delivery);
+  return transactionDone(tx);
+};
+
+export const clearDeliveries = async () => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_DELIVERIES, 'readwrite');
+  tx.objectStore(STORE_DELIVERIES).clear();
+  return transactionDone(tx);
+};
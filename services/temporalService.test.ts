@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { CapturedImage } from '../types';
+import { selectComparisonFrames } from './temporalService';
+
+// Runs in Europe/Berlin (see vite.config.ts), two hours ahead of UTC in June.
+const frame = (id: string, month: number, day: number, hour: number): CapturedImage =>
+  ({ id, timestamp: new Date(2026, month - 1, day, hour).getTime(), dataUrl: '' });
+
+describe('selectComparisonFrames', () => {
+  it('takes the last frame of each local day', () => {
+    // 01:00 local on the 11th is still the 10th in UTC.
+    const images = [frame('a', 6, 10, 9), frame('b', 6, 10, 22), frame('c', 6, 11, 1), frame('d', 6, 11, 18)];
+    expect(selectComparisonFrames(images, 'daily', 7).map(f => f.id)).toEqual(['b', 'd']);
+  });
+
+  it('keeps only the most recent days', () => {
+    const images = [frame('a', 6, 10, 12), frame('b', 6, 11, 12), frame('c', 6, 12, 12)];
+    expect(selectComparisonFrames(images, 'daily', 2).map(f => f.id)).toEqual(['b', 'c']);
+  });
+});
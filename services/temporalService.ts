@@ -0,0 +1,41 @@
+import { CapturedImage, TimelineInsight } from "../types";
+import { analyzeTemporalSequence } from "./geminiService";
+import { resolveImageData } from "./storageService";
+import { dayKey } from "./reportService";
+
+// --- Configuration Constants ---
+export const MAX_TEMPORAL_FRAMES = 10;
+
+// --- Frame Selection ---
+
+// 'last-n' takes the most recent frames; 'daily' takes the last frame of each of the most recent local days,
+// split the same way as reports.
+export const selectComparisonFrames = (images: CapturedImage[], mode: TimelineInsight['mode'], count: number) => {
+  const n = Math.min(Math.max(2, count), MAX_TEMPORAL_FRAMES);
+  if (mode === 'last-n') return images.slice(-n);
+
+  const perDay = new Map<string, CapturedImage>();
+  images.forEach(img => perDay.set(dayKey(img.timestamp), img));
+  return [...perDay.values()].slice(-n);
+};
+
+// --- Analysis ---
+
+export const createInsight = async (
+  images: CapturedImage[],
+  mode: TimelineInsight['mode'],
+  count: number
+): Promise<TimelineInsight> => {
+  const frames = selectComparisonFrames(images, mode, count);
+  if (frames.length < 2) throw new Error("At least two frames are needed for a comparison.");
+
+  const payload = await Promise.all(frames.map(async f => ({ id: f.id, timestamp: f.timestamp, dataUrl: await resolveImageData(f) })));
+  const comparison = await analyzeTemporalSequence(payload);
+  return {
+    ...comparison,
+    id: Date.now().toString(),
+    createdAt: Date.now(),
+    mode,
+    frameIds: frames.map(f => f.id)
+  };
+};
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebhookConfig } from '../types';
+import { deliver, signBody } from './webhookService';
+
+const hook = (overrides: Partial<WebhookConfig> = {}): WebhookConfig => ({
+  id: 'hook-1',
+  name: 'Test',
+  url: 'https://example.test/webhook',
+  enabled: true,
+  events: ['frame.captured'],
+  includeImage: false,
+  ...overrides
+});
+
+const respond = (status: number) => Promise.resolve(new Response(null, { status }));
+
+// Never settles on its own; rejects like fetch does when the request is aborted.
+const hang = (_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+  init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+});
+
+const headersOf = (call: unknown[]) => (call[1] as RequestInit).headers as Record<string, string>;
+
+describe('deliver', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('delivers on the first 2xx without retrying', async () => {
+    fetchMock.mockImplementation(() => respond(204));
+    const delivery = await deliver(hook(), 'frame.captured', null, {});
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 1, httpStatus: 204 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a 503 with doubling backoff and keeps the delivery id', async () => {
+    fetchMock.mockImplementationOnce(() => respond(503)).mockImplementationOnce(() => respond(503)).mockImplementation(() => respond(200));
+    const pending = deliver(hook(), 'frame.captured', null, {});
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    const delivery = await pending;
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 3, httpStatus: 200 });
+    const ids = fetchMock.mock.calls.map(call => headersOf(call)['X-Chronos-Delivery']);
+    expect(new Set(ids)).toEqual(new Set([delivery.id]));
+    const bodies = fetchMock.mock.calls.map(call => JSON.parse((call[1] as RequestInit).body as string).id);
+    expect(new Set(bodies)).toEqual(new Set([delivery.id]));
+  });
+
+  it('gives up after the last attempt', async () => {
+    fetchMock.mockImplementation(() => respond(500));
+    const pending = deliver(hook(), 'frame.captured', null, {});
+    await vi.runAllTimersAsync();
+    expect(await pending).toMatchObject({ status: 'failed', attempts: 4, httpStatus: 500, error: 'HTTP 500' });
+  });
+
+  it('does not retry other 4xx responses', async () => {
+    fetchMock.mockImplementation(() => respond(404));
+    const pending = deliver(hook(), 'frame.captured', null, {});
+    await vi.runAllTimersAsync();
+    expect(await pending).toMatchObject({ status: 'failed', attempts: 1, httpStatus: 404, error: 'HTTP 404' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts a request that outlives the timeout and retries it', async () => {
+    fetchMock.mockImplementationOnce(hang).mockImplementation(() => respond(200));
+    const pending = deliver(hook(), 'frame.captured', null, {});
+    await vi.advanceTimersByTimeAsync(10000);
+    expect((fetchMock.mock.calls[0][1] as RequestInit).signal?.aborted).toBe(true);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(await pending).toMatchObject({ status: 'delivered', attempts: 2 });
+  });
+
+  it('reports the timeout when every attempt hangs', async () => {
+    fetchMock.mockImplementation(hang);
+    const pending = deliver(hook(), 'frame.captured', null, {});
+    await vi.runAllTimersAsync();
+    expect(await pending).toMatchObject({ status: 'failed', attempts: 4, error: 'Timed out after 10s' });
+  });
+
+  it('signs the body instead of sending the secret', async () => {
+    fetchMock.mockImplementation(() => respond(200));
+    await deliver(hook({ secret: 's3cret' }), 'frame.captured', null, { a: 1 });
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(headers['X-Chronos-Signature']).toBe(`sha256=${await signBody('s3cret', init.body as string)}`);
+    expect(JSON.stringify(init)).not.toContain('s3cret');
+  });
+});
+
+describe('signBody', () => {
+  it('matches the RFC 4231 HMAC-SHA256 test vector', async () => {
+    expect(await signBody('Jefe', 'what do ya want for nothing?')).toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+  });
+});
@@ -0,0 +1,113 @@
+import { CapturedImage, Project, WebhookConfig, WebhookDelivery, WebhookEvent } from "../types";
+import { resolveImageData } from "./storageService";
+
+// --- Configuration Constants ---
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['frame.captured', 'analysis.completed', 'alert.fired', 'report.generated'];
+export const LOCAL_RECEIVER_URL = 'http://localhost:8787/webhook'; // scripts/webhook-receiver.mjs
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 1000; // Doubles per retry: 1s, 2s, 4s
+const REQUEST_TIMEOUT_MS = 10000;
+
+// --- Helpers ---
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Timeouts, rate limiting and server errors are worth another try; other 4xx responses will not change.
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+// Hex HMAC-SHA256 of the exact body, sent as `X-Chronos-Signature: sha256=<hex>`; the secret itself never leaves the app.
+export const signBody = async (secret: string, body: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createWebhook = (): WebhookConfig => ({
+  id: `hook-${Date.now()}`,
+  name: 'Webhook',
+  url: LOCAL_RECEIVER_URL,
+  enabled: true,
+  events: [...WEBHOOK_EVENTS],
+  includeImage: false
+});
+
+// Frame metadata without the object URL, which means nothing outside this tab.
+export const frameData = async (img: CapturedImage, includeImage: boolean) => {
+  const { dataUrl, ...frame } = img;
+  return includeImage ? { frame, image: await resolveImageData(img) } : { frame };
+};
+
+// --- Delivery ---
+
+// Posts one payload, retrying with exponential backoff. The delivery id is stable across retries
+// so receivers can de-duplicate a request whose response was lost.
+export const deliver = async (hook: WebhookConfig, event: WebhookDelivery['event'], project: Pick<Project, 'id' | 'name'> | null, data: object): Promise<WebhookDelivery> => {
+  const id = `delivery-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  const started = Date.now();
+  const body = JSON.stringify({ id, event, sentAt: new Date(started).toISOString(), project, data });
+  let attempts = 0;
+  let httpStatus: number | undefined;
+  let error: string | undefined;
+  let signature: string | undefined;
+  try {
+    if (hook.secret) signature = await signBody(hook.secret, body);
+  } catch (e: any) {
+    // Web Crypto only exists in secure contexts (HTTPS or localhost); an unsigned request would be rejected anyway.
+    return { id, webhookId: hook.id, event, timestamp: started, status: 'failed', attempts, error: `Signing failed: ${e.message || 'Web Crypto unavailable'}`, durationMs: Date.now() - started };
+  }
+
+  while (attempts < MAX_ATTEMPTS) {
+    if (attempts > 0) await sleep(BACKOFF_BASE_MS * 2 ** (attempts - 1));
+    attempts++;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(hook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Chronos-Event': event,
+          'X-Chronos-Delivery': id,
+          ...(signature ? { 'X-Chronos-Signature': `sha256=${signature}` } : {})
+        },
+        body,
+        signal: controller.signal
+      });
+      httpStatus = response.status;
+      if (response.ok) {
+        return { id, webhookId: hook.id, event, timestamp: started, status: 'delivered', attempts, httpStatus, durationMs: Date.now() - started };
+      }
+      error = `HTTP ${response.status}`;
+      if (!isRetryable(response.status)) break;
+    } catch (e: any) {
+      // fetch rejects with a bare TypeError for network and CORS failures alike.
+      error = e.name === 'AbortError' ? `Timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : (e.message || 'Network error');
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  return { id, webhookId: hook.id, event, timestamp: started, status: 'failed', attempts, httpStatus, error, durationMs: Date.now() - started };
+};
+
+// Fans an event out to every enabled webhook subscribed to it. `buildData` runs once per image
+// preference so the JPEG is only encoded when some webhook asked for it.
+export const dispatchWebhookEvent = async (
+  hooks: WebhookConfig[],
+  event: WebhookEvent,
+  project: Pick<Project, 'id' | 'name'> | null,
+  buildData: (includeImage: boolean) => object | Promise<object>,
+  onDelivery: (delivery: WebhookDelivery) => void
+) => {
+  const targets = hooks.filter(h => h.enabled && h.url && h.events.includes(event));
+  if (targets.length === 0) return;
+  const cache = new Map<boolean, Promise<object>>();
+  const dataFor = (includeImage: boolean) => {
+    if (!cache.has(includeImage)) cache.set(includeImage, Promise.resolve(buildData(includeImage)));
+    return cache.get(includeImage)!;
+  };
+  await Promise.all(targets.map(async hook => onDelivery(await deliver(hook, event, project, await dataFor(hook.includeImage)))));
+};
+
+export const sendTestEvent = (hook: WebhookConfig) =>
+  deliver(hook, 'test', null, { message: 'Chronos Gaia webhook test', events: hook.events });
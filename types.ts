@@ -1,3 +1,71 @@
+export type HealthStatus = 'HEALTHY' | 'STRESSED' | 'CRITICAL';
+
+// On-device pixel measurements; percentages are 0-100, hue is in degrees.
+export interface FrameMetrics {
+  canopyCoverage: number; // Share of the frame segmented as green foliage
+  meanHue: number;        // Circular mean hue of the plant region
+  meanSaturation: number; // Mean saturation of the plant region
+  brightness: number;     // Mean luma of the whole frame
+}
+
+// Rigid correction that registers a frame onto its reference. Offsets are fractions of the frame size,
+// applied after the rotation, so the same alignment works at any render resolution.
+export interface FrameAlignment {
+  referenceId: string;
+  dx: number;
+  dy: number;
+  rotation: number; // Degrees, clockwise about the frame centre
+}
+
+// Crop rectangle normalised to the full camera frame (0-1), so it survives resolution changes.
+export interface RegionOfInterest {
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Manual camera controls, applied as track constraints where the device supports them.
+// A 'continuous' mode (or an unset value) leaves the browser's automatic behaviour in place.
+export interface CameraControls {
+  exposureMode: 'continuous' | 'manual';
+  exposureTime?: number;         // Device units, typically 100µs steps
+  exposureCompensation?: number;
+  iso?: number;
+  focusMode: 'continuous' | 'manual';
+  focusDistance?: number;
+  whiteBalanceMode: 'continuous' | 'manual';
+  colorTemperature?: number;     // Kelvin
+  zoom?: number;                 // Hardware zoom, unlike the feed's CSS pan and zoom
+}
+
+export type QualityIssue = 'dark' | 'overexposed' | 'blurry' | 'duplicate';
+
+// Local capture-time quality checks. Sharpness is the Laplacian variance of a downsampled frame;
+// the hash is a 64-bit difference hash (hex) used to spot near-identical consecutive shots.
+export interface FrameQuality {
+  brightness: number;  // 0-100 mean luma
+  sharpness: number;
+  hash: string;
+  similarity?: number; // 0-100 against the previous frame
+  issues: QualityIssue[];
+}
+
+// What to do with a frame that fails a check.
+export type QualityPolicy = 'off' | 'flag' | 'skip-analysis' | 'discard';
+
+export interface QualitySettings {
+  minBrightness: number;
+  maxBrightness: number;
+  minSharpness: number;
+  maxSimilarity: number;
+  exposurePolicy: QualityPolicy;
+  blurPolicy: QualityPolicy;
+  duplicatePolicy: QualityPolicy;
+}
+
 export interface CapturedImage {
   id: string;
   timestamp: number;
@@ -6,17 +74,95 @@ export interface CapturedImage {
   confidence?: number;
   growthStage?: string;
   eventTags?: string[];
-  healthStatus?: 'HEALTHY' | 'STRESSED' | 'CRITICAL';
+  healthStatus?: HealthStatus;
   advice?: string;
+  analysisStatus?: 'pending' | 'complete' | 'failed';
+  analysisError?: string;
+  analysisAttempts?: number;
+  metrics?: FrameMetrics;
+  alignment?: FrameAlignment;
+  plannedAt?: number; // Scheduled slot this capture fulfilled; absent for manual captures
+  quality?: FrameQuality;
+  region?: RegionOfInterest; // Crop applied at capture; absent for full-frame captures
+  flash?: boolean;           // Torch was lit for this capture
+  projectId?: string;        // Absent on frames captured before projects existed, which belong to the default project
+}
+
+// Validated result of a single-frame vision analysis; every field maps onto CapturedImage.
+export interface SnapshotAnalysis {
+  analysis: string;
+  healthStatus: HealthStatus;
+  growthStage: string;
+  eventTags: string[];
+  advice: string;
+  confidence: number;
+}
+
+// Validated result of a multi-frame comparison; stage transitions point at the frame where they were first seen.
+export interface TemporalComparison {
+  summary: string;
+  sizeTrend: 'GROWING' | 'STABLE' | 'SHRINKING';
+  sizeChangePercent: number;
+  healthTrend: 'IMPROVING' | 'STABLE' | 'DECLINING';
+  colorChange: string;
+  stageTransitions: Array<{ fromStage: string; toStage: string; frameId: string }>;
+  confidence: number;
+}
+
+export interface TimelineInsight extends TemporalComparison {
+  id: string;
+  createdAt: number;
+  mode: 'last-n' | 'daily';
+  frameIds: string[];
+  projectId?: string;
+}
+
+// One entry in the capture-health log. A gap spans from the last capture to the moment missed slots were detected.
+export interface CaptureLogEntry {
+  id: string;
+  timestamp: number;
+  kind: 'session-start' | 'session-stop' | 'capture' | 'rejected' | 'gap' | 'wake-lock' | 'visibility';
+  plannedAt?: number;   // capture
+  delayMs?: number;     // capture: actual minus planned
+  gapStart?: number;    // gap
+  missedSlots?: number; // gap
+  detail?: string;      // wake-lock and visibility state, rejection reasons
+  projectId?: string;   // capture, rejected and gap; session events apply to every project
+}
+
+export type CareEventType = 'water' | 'nutrient' | 'prune' | 'repot' | 'pest-treatment' | 'other';
+
+// A grower action from the care journal, kept next to the frames so changes can be tied to care.
+export interface CareEvent {
+  id: string;
+  timestamp: number;
+  type: CareEventType;
+  amountMl?: number; // water and nutrient
+  product?: string;  // nutrient, treatment or new medium
+  notes?: string;
+  projectId?: string;
+}
+
+export interface GrowthReport {
+  id: string;
+  createdAt: number;
+  rangeStart: number;
+  rangeEnd: number;
+  frameIds: string[];
+  text: string;
+  projectId?: string;
 }
 
 export enum AppMode {
   MONITOR = 'MONITOR',
   CHAT = 'CHAT',
   LIVE = 'LIVE',
-  GALLERY = 'GALLERY'
+  GALLERY = 'GALLERY',
+  DASHBOARD = 'DASHBOARD'
 }
 
+export type ChatMode = 'standard' | 'thinking' | 'search' | 'maps';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model' | 'system';
@@ -24,10 +170,99 @@ export interface ChatMessage {
   timestamp: number;
   isThinking?: boolean;
   groundingUrls?: Array<{ title?: string; uri: string }>;
+  attachments?: string[]; // CapturedImage ids sent with the message
+  frameCitations?: string[]; // CapturedImage ids the answer relied on
+  projectId?: string;
 }
 
-export interface MonitorSettings {
+// Limits when scheduled captures may fire. Hours are local time; the daylight window needs coordinates.
+export interface CaptureSchedule {
+  window: 'always' | 'hours' | 'daylight';
+  startHour: number;        // 'hours' window start, inclusive
+  endHour: number;          // Exclusive; an end before the start spans midnight
+  activeDays: number[];     // 0 = Sunday
+  sunOffsetMinutes: number; // Widens (or, if negative, narrows) the sunrise-sunset window
+  latitude?: number;
+  longitude?: number;
+  catchUp: boolean;         // Capture immediately when a planned capture was missed
+}
+
+// A monitored plant bound to one camera, with its own schedule and timeline.
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  deviceId?: string; // Video input; unset falls back to the global facing mode
   intervalHours: number;
+  schedule: CaptureSchedule;
+  cameraControls: CameraControls;
+  regions: RegionOfInterest[];
+  activeRegionId?: string; // Region cropped on capture; full frame when unset
+  alignmentReferenceId?: string;
+  // Plant profile, passed to the model so advice is species-specific
+  species?: string;
+  plantedAt?: number;
+  container?: string; // Pot size and growing medium
+  notes?: string;
+  settings?: ProjectSettings; // This plant's overrides of the global monitor settings
+}
+
+// Settings a plant can set for itself; anything left unset follows MonitorSettings.
+export type ProjectSettings = Partial<Pick<MonitorSettings, 'autoAnalyze' | 'resolution' | 'minConfidenceThreshold' | 'quality' | 'stabilize' | 'flashMode'>>;
+
+export type AlertTrigger = 'health-change' | 'event-tag' | 'consecutive-stressed' | 'camera-offline';
+
+export interface AlertRule {
+  id: string;
+  trigger: AlertTrigger;
+  enabled: boolean;
+  statuses?: HealthStatus[]; // health-change: statuses that fire when a frame enters them
+  tags?: string[];           // event-tag: matched case-insensitively against eventTags
+  count?: number;            // consecutive-stressed: streak length that fires
+  cooldownMinutes: number;   // Suppresses repeats of this rule per project
+  notify: boolean;           // Browser notification
+  speak: boolean;            // Spoken warning via TTS
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  trigger: AlertTrigger;
+  severity: 'warning' | 'critical';
+  timestamp: number;
+  message: string;
+  frameId?: string;
+  projectId?: string;
+  acknowledged?: boolean;
+}
+
+export type WebhookEvent = 'frame.captured' | 'analysis.completed' | 'alert.fired' | 'report.generated';
+
+export interface WebhookConfig {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  events: WebhookEvent[];
+  includeImage: boolean; // Embed the frame JPEG as a data URL in frame payloads
+  secret?: string;       // HMAC-SHA256 key for X-Chronos-Signature; never leaves the device
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent | 'test';
+  timestamp: number;
+  status: 'delivered' | 'failed';
+  attempts: number;
+  httpStatus?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export type FlashMode = 'off' | 'on' | 'auto'; // 'auto' lights the torch only for dark captures
+
+export interface MonitorSettings {
   autoAnalyze: boolean;
   wakeLockActive: boolean;
   facingMode: 'user' | 'environment';
@@ -36,4 +271,8 @@ export interface MonitorSettings {
   timestampPrecision: 'date' | 'time' | 'both';
   minConfidenceThreshold: number;
   autoAdvance: boolean;
+  quality: QualitySettings;
+  stabilize: boolean; // Render stored alignments in playback, compare and export
+  flashMode: FlashMode;
+  alertRules: AlertRule[];
 }
\ No newline at end of file